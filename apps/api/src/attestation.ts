@@ -0,0 +1,111 @@
+import { getAddress, Wallet } from 'ethers';
+import {
+  recoverChallengeResultSigner,
+  recoverVerificationAttestationSigner,
+  reportAttestationMessage,
+  type ChallengePayload,
+  type ChallengeResult,
+  type SignedVerificationAttestation,
+  type SubmissionPayload,
+  type VerificationReport,
+  type WorkOrder,
+} from '@v4shm/shared';
+
+// VERIFIER_ADDRESSES (or the single VERIFIER_ADDRESS), falling back to the address of
+// VERIFIER_PRIVATE_KEY when the API shares the verifier's env.
+export function configuredVerifierAddresses(env: NodeJS.ProcessEnv): string[] {
+  const listed = (env.VERIFIER_ADDRESSES || env.VERIFIER_ADDRESS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (listed.length > 0) return [...new Set(listed.map((entry) => getAddress(entry)))];
+  if (env.VERIFIER_PRIVATE_KEY) return [new Wallet(env.VERIFIER_PRIVATE_KEY).address];
+  return [];
+}
+
+type AttestationContext = {
+  verifierAddresses: string[];
+  workOrder: WorkOrder;
+  submission: SubmissionPayload;
+};
+
+export type AttestationCheck = { ok: true; signer: string } | { ok: false; error: string };
+
+// Whether `attestation` justifies paying for this submission, and which configured verifier signed it.
+export function checkAttestation(
+  attestation: SignedVerificationAttestation | null | undefined,
+  context: AttestationContext
+): AttestationCheck {
+  const { verifierAddresses, workOrder, submission } = context;
+  if (verifierAddresses.length === 0) {
+    return { ok: false, error: 'No VERIFIER_ADDRESSES configured to check verifier signatures against' };
+  }
+  if (!attestation) return { ok: false, error: 'Verification result is not signed' };
+
+  let signer: string;
+  try {
+    signer = getAddress(recoverVerificationAttestationSigner(attestation.message, attestation.signature));
+  } catch {
+    return { ok: false, error: 'Verification signature is malformed' };
+  }
+  if (!verifierAddresses.includes(signer)) {
+    return { ok: false, error: `Verification signed by ${signer}, which is not a configured verifier` };
+  }
+
+  const { message } = attestation;
+  if (message.submissionId !== submission.id) return { ok: false, error: 'Attestation is for another submission' };
+  if (message.artifactHash !== submission.artifact.artifactHash) {
+    return { ok: false, error: 'Attestation is for another artifact' };
+  }
+  if (workOrder.artifacts.harnessHash && message.harnessHash !== workOrder.artifacts.harnessHash) {
+    return { ok: false, error: 'Attestation is for another harness' };
+  }
+  return { ok: true, signer };
+}
+
+// A report must also match what its attestation signs, so third parties can re-check the payout.
+export function checkReportAttestation(report: VerificationReport, context: AttestationContext): AttestationCheck {
+  const check = checkAttestation(report.attestation, context);
+  if (!check.ok || !report.attestation) return check;
+  const { message } = report.attestation;
+  const expected = reportAttestationMessage(report, message.milestones);
+  const mismatched = Object.entries(expected).find(
+    ([key, value]) => JSON.stringify(value) !== JSON.stringify(message[key as keyof typeof message])
+  );
+  return mismatched ? { ok: false, error: `Attestation does not match the report's ${mismatched[0]}` } : check;
+}
+
+// Whether a verifier's challenge outcome is signed by a configured verifier for this very challenge.
+export function checkChallengeAttestation(
+  result: ChallengeResult,
+  context: AttestationContext & { challenge: ChallengePayload }
+): AttestationCheck {
+  const { verifierAddresses, workOrder, submission, challenge } = context;
+  if (verifierAddresses.length === 0) {
+    return { ok: false, error: 'No VERIFIER_ADDRESSES configured to check verifier signatures against' };
+  }
+  const { attestation } = result;
+  if (!attestation) return { ok: false, error: 'Challenge result is not signed' };
+
+  let signer: string;
+  try {
+    signer = getAddress(recoverChallengeResultSigner(attestation.message, attestation.signature));
+  } catch {
+    return { ok: false, error: 'Challenge result signature is malformed' };
+  }
+  if (!verifierAddresses.includes(signer)) {
+    return { ok: false, error: `Challenge result signed by ${signer}, which is not a configured verifier` };
+  }
+
+  const expected = {
+    challengeId: challenge.id,
+    workOrderId: workOrder.id,
+    submissionId: submission.id,
+    artifactHash: submission.artifact.artifactHash,
+    outcome: result.outcome,
+  };
+  const mismatched = Object.entries(expected).find(
+    ([key, value]) => attestation.message[key as keyof typeof expected] !== value
+  );
+  return mismatched ? { ok: false, error: `Challenge result signs another ${mismatched[0]}` } : { ok: true, signer };
+}
@@ -0,0 +1,48 @@
+import type { DutchAuction, WorkOrderWindows } from '@v4shm/shared';
+
+// Price ticks are pushed from the sweeper, so steps shorter than its interval would be skipped.
+export const MIN_DUTCH_STEP_MS = 5 * 1000;
+const DEFAULT_DUTCH_STEPS = 10;
+
+const DECIMAL_PATTERN = /^\d+(\.\d{1,6})?$/;
+
+export function parseDutchAuction(
+  input: unknown,
+  context: { bountyAmount: string; windows: WorkOrderWindows }
+): { ok: true; auction: Omit<DutchAuction, 'startsAt'> } | { ok: false; errors: Record<string, string> } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { ok: false, errors: { dutchAuction: 'required for DUTCH bidding (expected { startPrice, stepMs? })' } };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: Record<string, string> = {};
+  for (const key of Object.keys(raw)) {
+    if (key !== 'startPrice' && key !== 'stepMs') errors[key] = 'unknown field';
+  }
+
+  const startPrice = typeof raw.startPrice === 'number' ? String(raw.startPrice) : raw.startPrice;
+  if (typeof startPrice !== 'string' || !DECIMAL_PATTERN.test(startPrice)) {
+    errors.startPrice = 'must be a decimal amount with at most 6 decimals';
+  } else if (Number(startPrice) >= Number(context.bountyAmount)) {
+    errors.startPrice = 'must be below the bounty amount';
+  }
+
+  const biddingMs = context.windows.biddingMs;
+  const stepMs = raw.stepMs ?? Math.max(MIN_DUTCH_STEP_MS, Math.floor(biddingMs / DEFAULT_DUTCH_STEPS));
+  if (typeof stepMs !== 'number' || !Number.isInteger(stepMs)) {
+    errors.stepMs = 'must be an integer number of milliseconds';
+  } else if (stepMs < MIN_DUTCH_STEP_MS || stepMs > biddingMs) {
+    errors.stepMs = `must be between ${MIN_DUTCH_STEP_MS} and ${biddingMs} ms (the bidding window)`;
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    auction: {
+      startPrice: startPrice as string,
+      stepMs: stepMs as number,
+      // The bounty is reached on the last step that fits in the bidding window.
+      steps: Math.max(1, Math.floor(biddingMs / (stepMs as number))),
+    },
+  };
+}
@@ -26,6 +26,22 @@ export type QuoteRecord = {
   payload: unknown;
 };
 
+export type QuoteHistoryRecord = {
+  id: string;
+  quoteId: string;
+  workOrderId: string;
+  createdAt: number;
+  action: string;
+  payload: unknown;
+};
+
+export type QuoteCommitmentRecord = {
+  id: string;
+  workOrderId: string;
+  createdAt: number;
+  payload: unknown;
+};
+
 export type SubmissionRecord = {
   id: string;
   workOrderId: string;
@@ -49,6 +65,23 @@ export type PaymentEventRecord = {
   payload: unknown;
 };
 
+export type WorkOrderTransitionRecord = {
+  id: string;
+  workOrderId: string;
+  createdAt: number;
+  fromStatus: string;
+  toStatus: string;
+  payload: unknown;
+};
+
+export type VerificationDisputeRecord = {
+  id: string;
+  workOrderId: string;
+  createdAt: number;
+  kind: string;
+  payload: unknown;
+};
+
 export type SolverStatsRecord = {
   solverAddress: string;
   payload: unknown;
@@ -82,6 +115,28 @@ export function createDb() {
     CREATE INDEX IF NOT EXISTS quotes_work_order_idx
       ON quotes(work_order_id);
 
+    CREATE TABLE IF NOT EXISTS quote_history (
+      id TEXT PRIMARY KEY,
+      quote_id TEXT NOT NULL,
+      work_order_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      action TEXT NOT NULL,
+      payload_json TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS quote_history_work_order_idx
+      ON quote_history(work_order_id, created_at);
+
+    CREATE TABLE IF NOT EXISTS quote_commitments (
+      id TEXT PRIMARY KEY,
+      work_order_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      payload_json TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS quote_commitments_work_order_idx
+      ON quote_commitments(work_order_id);
+
     CREATE TABLE IF NOT EXISTS submissions (
       id TEXT PRIMARY KEY,
       work_order_id TEXT NOT NULL,
@@ -114,6 +169,29 @@ export function createDb() {
     CREATE INDEX IF NOT EXISTS payment_events_work_order_idx
       ON payment_events(work_order_id);
 
+    CREATE TABLE IF NOT EXISTS work_order_transitions (
+      id TEXT PRIMARY KEY,
+      work_order_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      from_status TEXT NOT NULL,
+      to_status TEXT NOT NULL,
+      payload_json TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS work_order_transitions_work_order_idx
+      ON work_order_transitions(work_order_id);
+
+    CREATE TABLE IF NOT EXISTS verification_disputes (
+      id TEXT PRIMARY KEY,
+      work_order_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      kind TEXT NOT NULL,
+      payload_json TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS verification_disputes_work_order_idx
+      ON verification_disputes(work_order_id);
+
     CREATE TABLE IF NOT EXISTS solver_stats (
       solver_address TEXT PRIMARY KEY,
       payload_json TEXT NOT NULL
@@ -142,6 +220,24 @@ export function createDb() {
   const listQuotesStmt = db.prepare(
     'SELECT id, work_order_id, created_at, payload_json FROM quotes WHERE work_order_id = ? ORDER BY created_at ASC'
   );
+  const getQuoteStmt = db.prepare(
+    'SELECT id, work_order_id, created_at, payload_json FROM quotes WHERE id = ? LIMIT 1'
+  );
+  const updateQuoteStmt = db.prepare('UPDATE quotes SET payload_json = ? WHERE id = ?');
+
+  const insertQuoteHistoryStmt = db.prepare(
+    'INSERT INTO quote_history (id, quote_id, work_order_id, created_at, action, payload_json) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  const listQuoteHistoryStmt = db.prepare(
+    'SELECT id, quote_id, work_order_id, created_at, action, payload_json FROM quote_history WHERE work_order_id = ? ORDER BY created_at ASC, rowid ASC'
+  );
+
+  const insertQuoteCommitmentStmt = db.prepare(
+    'INSERT INTO quote_commitments (id, work_order_id, created_at, payload_json) VALUES (?, ?, ?, ?)'
+  );
+  const listQuoteCommitmentsStmt = db.prepare(
+    'SELECT id, work_order_id, created_at, payload_json FROM quote_commitments WHERE work_order_id = ? ORDER BY created_at ASC'
+  );
 
   const insertSubmissionStmt = db.prepare(
     'INSERT INTO submissions (id, work_order_id, created_at, payload_json) VALUES (?, ?, ?, ?)'
@@ -170,6 +266,20 @@ export function createDb() {
     'SELECT id, work_order_id, created_at, type, payload_json FROM payment_events WHERE work_order_id = ? ORDER BY created_at ASC'
   );
 
+  const insertTransitionStmt = db.prepare(
+    'INSERT INTO work_order_transitions (id, work_order_id, created_at, from_status, to_status, payload_json) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  const listTransitionsStmt = db.prepare(
+    'SELECT id, work_order_id, created_at, from_status, to_status, payload_json FROM work_order_transitions WHERE work_order_id = ? ORDER BY created_at ASC, rowid ASC'
+  );
+
+  const insertVerificationDisputeStmt = db.prepare(
+    'INSERT INTO verification_disputes (id, work_order_id, created_at, kind, payload_json) VALUES (?, ?, ?, ?, ?)'
+  );
+  const listVerificationDisputesStmt = db.prepare(
+    'SELECT id, work_order_id, created_at, kind, payload_json FROM verification_disputes WHERE work_order_id = ? ORDER BY created_at ASC, rowid ASC'
+  );
+
   const upsertSolverStatsStmt = db.prepare(
     'INSERT INTO solver_stats (solver_address, payload_json) VALUES (?, ?) ON CONFLICT(solver_address) DO UPDATE SET payload_json = excluded.payload_json'
   );
@@ -180,17 +290,48 @@ export function createDb() {
     'SELECT solver_address, payload_json FROM solver_stats ORDER BY solver_address ASC'
   );
 
-  return {
-    insertWorkOrder(record: WorkOrderRecord) {
-      insertWorkOrderStmt.run(
+  function atomically(write: () => void) {
+    db.exec('BEGIN');
+    try {
+      write();
+      db.exec('COMMIT');
+    } catch (err) {
+      db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  function insertTransitions(transitions: WorkOrderTransitionRecord[]) {
+    for (const record of transitions) {
+      insertTransitionStmt.run(
         record.id,
+        record.workOrderId,
         record.createdAt,
-        record.status,
+        record.fromStatus,
+        record.toStatus,
         JSON.stringify(record.payload)
       );
+    }
+  }
+
+  return {
+    // Work order writes carry the audit rows of the transitions that led to them.
+    insertWorkOrder(record: WorkOrderRecord, transitions: WorkOrderTransitionRecord[] = []) {
+      atomically(() => {
+        insertWorkOrderStmt.run(
+          record.id,
+          record.createdAt,
+          record.status,
+          JSON.stringify(record.payload)
+        );
+        insertTransitions(transitions);
+      });
     },
-    updateWorkOrder(record: WorkOrderRecord) {
-      updateWorkOrderStmt.run(record.status, JSON.stringify(record.payload), record.id);
+    updateWorkOrder(record: WorkOrderRecord, transitions: WorkOrderTransitionRecord[] = []) {
+      atomically(() => {
+        updateWorkOrderStmt.run(record.status, JSON.stringify(record.payload), record.id);
+        insertTransitions(transitions);
+      });
     },
     getWorkOrder(id: string): WorkOrderRecord | null {
       const row = getWorkOrderStmt.get(id) as
@@ -240,6 +381,71 @@ export function createDb() {
         payload: JSON.parse(row.payload_json),
       }));
     },
+    getQuote(id: string): QuoteRecord | null {
+      const row = getQuoteStmt.get(id) as
+        | { id: string; work_order_id: string; created_at: number; payload_json: string }
+        | undefined;
+      if (!row) return null;
+      return {
+        id: row.id,
+        workOrderId: row.work_order_id,
+        createdAt: row.created_at,
+        payload: JSON.parse(row.payload_json),
+      };
+    },
+    updateQuote(record: QuoteRecord) {
+      updateQuoteStmt.run(JSON.stringify(record.payload), record.id);
+    },
+    insertQuoteHistory(record: QuoteHistoryRecord) {
+      insertQuoteHistoryStmt.run(
+        record.id,
+        record.quoteId,
+        record.workOrderId,
+        record.createdAt,
+        record.action,
+        JSON.stringify(record.payload)
+      );
+    },
+    listQuoteHistory(workOrderId: string): QuoteHistoryRecord[] {
+      const rows = listQuoteHistoryStmt.all(workOrderId) as Array<{
+        id: string;
+        quote_id: string;
+        work_order_id: string;
+        created_at: number;
+        action: string;
+        payload_json: string;
+      }>;
+      return rows.map((row) => ({
+        id: row.id,
+        quoteId: row.quote_id,
+        workOrderId: row.work_order_id,
+        createdAt: row.created_at,
+        action: row.action,
+        payload: JSON.parse(row.payload_json),
+      }));
+    },
+    insertQuoteCommitment(record: QuoteCommitmentRecord) {
+      insertQuoteCommitmentStmt.run(
+        record.id,
+        record.workOrderId,
+        record.createdAt,
+        JSON.stringify(record.payload)
+      );
+    },
+    listQuoteCommitments(workOrderId: string): QuoteCommitmentRecord[] {
+      const rows = listQuoteCommitmentsStmt.all(workOrderId) as Array<{
+        id: string;
+        work_order_id: string;
+        created_at: number;
+        payload_json: string;
+      }>;
+      return rows.map((row) => ({
+        id: row.id,
+        workOrderId: row.work_order_id,
+        createdAt: row.created_at,
+        payload: JSON.parse(row.payload_json),
+      }));
+    },
     insertSubmission(record: SubmissionRecord) {
       insertSubmissionStmt.run(
         record.id,
@@ -346,6 +552,49 @@ export function createDb() {
         payload: JSON.parse(row.payload_json),
       }));
     },
+    listTransitions(workOrderId: string): WorkOrderTransitionRecord[] {
+      const rows = listTransitionsStmt.all(workOrderId) as Array<{
+        id: string;
+        work_order_id: string;
+        created_at: number;
+        from_status: string;
+        to_status: string;
+        payload_json: string;
+      }>;
+      return rows.map((row) => ({
+        id: row.id,
+        workOrderId: row.work_order_id,
+        createdAt: row.created_at,
+        fromStatus: row.from_status,
+        toStatus: row.to_status,
+        payload: JSON.parse(row.payload_json),
+      }));
+    },
+    insertVerificationDispute(record: VerificationDisputeRecord) {
+      insertVerificationDisputeStmt.run(
+        record.id,
+        record.workOrderId,
+        record.createdAt,
+        record.kind,
+        JSON.stringify(record.payload)
+      );
+    },
+    listVerificationDisputes(workOrderId: string): VerificationDisputeRecord[] {
+      const rows = listVerificationDisputesStmt.all(workOrderId) as Array<{
+        id: string;
+        work_order_id: string;
+        created_at: number;
+        kind: string;
+        payload_json: string;
+      }>;
+      return rows.map((row) => ({
+        id: row.id,
+        workOrderId: row.work_order_id,
+        createdAt: row.created_at,
+        kind: row.kind,
+        payload: JSON.parse(row.payload_json),
+      }));
+    },
     upsertSolverStats(record: SolverStatsRecord) {
       upsertSolverStatsStmt.run(record.solverAddress, JSON.stringify(record.payload));
     },
@@ -30,8 +30,9 @@ export class EventBus {
     };
   }
 
-  emit(event: WorkOrderEvent) {
-    if (this.logPath) {
+  // `persist: false` only reaches live subscribers, for high-volume events such as log output.
+  emit(event: WorkOrderEvent, options: { persist?: boolean } = {}) {
+    if (this.logPath && options.persist !== false) {
       fs.appendFileSync(this.logPath, `${JSON.stringify(event)}\n`, 'utf8');
     }
     const set = this.listeners.get(event.workOrderId);
@@ -7,36 +7,105 @@ import { fileURLToPath } from 'node:url';
 import { getAddress, Wallet } from 'ethers';
 import {
   QuoteMessage,
+  QuoteRevisionMessage,
+  QuoteCommitmentMessage,
+  QuoteWithdrawalMessage,
   SubmissionMessage,
   ChallengeMessage,
+  WorkOrderMessage,
+  SelectQuoteMessage,
+  EndSessionMessage,
+  CancelWorkOrderMessage,
   WorkOrder,
+  DutchAuction,
+  WorkOrderStatus,
+  WorkOrderTransition,
+  WorkOrderTransitionActor,
   QuotePayload,
+  QuoteCommitmentPayload,
+  QuoteHistoryAction,
+  QuoteHistoryEntry,
+  SelectionExplanation,
+  AuctionAcceptanceMessage,
+  AuctionAcceptancePayload,
   SubmissionPayload,
+  ChallengePayload,
+  ChallengeResult,
+  ChallengeVerifierResult,
+  VerificationDispute,
+  VerificationJob,
+  VerificationLogEntry,
+  VerificationResult,
+  RacerVerification,
+  VerifierJobRef,
+  VerifierResult,
   PaymentEvent,
   YELLOW_ASSET,
+  toUnits,
+  fromUnits,
   sha256Hex,
+  quoteCommitmentHash,
   recoverQuoteSigner,
+  recoverQuoteRevisionSigner,
+  recoverQuoteCommitmentSigner,
+  recoverQuoteWithdrawalSigner,
   recoverSubmissionSigner,
   recoverChallengeSigner,
+  recoverWorkOrderSigner,
+  recoverSelectQuoteSigner,
+  recoverEndSessionSigner,
+  recoverCancelWorkOrderSigner,
+  recoverAuctionAcceptanceSigner,
+  dutchAuctionStep,
+  dutchPriceAt,
+  nextDutchPriceAt,
+  HOOK_TEMPLATES,
+  getHookTemplate,
+  validateTemplateParams,
 } from '@v4shm/shared';
-import { createDb } from './db.js';
+import { createDb, type SolverStatsRecord } from './db.js';
 import { EventBus } from './events.js';
 import { YellowClient, type YellowSessionState } from '@v4shm/yellow-client';
 import { calculateReputation, emptySolverStats, type SolverStats } from './reputation.js';
+import { IllegalTransitionError, canTransition, transitionWorkOrder } from './state-machine.js';
+import { DEFAULT_WINDOWS, parseWindows } from './windows.js';
+import { HOLDBACK_MILESTONE_KEY, holdbackPercent, parsePayoutSchedule } from './milestones.js';
+import { parseDutchAuction } from './auction.js';
+import { parseRace } from './race.js';
+import { DEFAULT_SCORING_POLICY, explainWinner, parseScoringPolicy, scoreQuotes } from './scoring.js';
+import {
+  checkAttestation,
+  checkChallengeAttestation,
+  checkReportAttestation,
+  configuredVerifierAddresses,
+} from './attestation.js';
+import { dedupeChallengeSigners, dedupeSigners, parseVerifierSet, quorumMilestones, quorumOutcome, verificationDisagreement } from './quorum.js';
 
 const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../');
 
-const BIDDING_WINDOW_MS = 5 * 60 * 1000;
-const DELIVERY_WINDOW_MS = 25 * 60 * 1000;
-const VERIFY_WINDOW_MS = 10 * 60 * 1000;
-const CHALLENGE_WINDOW_MS = 10 * 60 * 1000;
-const PATCH_WINDOW_MS = 10 * 60 * 1000;
 const QUOTE_REWARD = 0.01;
 const MAX_QUOTE_REWARDS = 20;
 const MILESTONE_SPLITS = Math.max(1, Math.min(20, Number(process.env.YELLOW_MILESTONE_SPLITS ?? 1)));
 const AUTO_TICK_MS = 5 * 1000;
-
-const VERIFIER_URL = process.env.VERIFIER_URL ?? 'http://localhost:3002';
+// Verification attempts per submission before infrastructure failures fail the work order.
+const MAX_VERIFY_ATTEMPTS = 3;
+const VERIFY_RETRY_DELAY_MS = 30 * 1000;
+// Bounds each call to the verifier's job endpoints; the verification itself is bounded by verifyEndsAt.
+const VERIFIER_REQUEST_TIMEOUT_MS = 10 * 1000;
+// A challenge runs forge build and test on the verifier, each bounded by the verifier's challenge stage
+// timeout (same env as the verifier's, default 10 minutes), plus the checkout.
+const VERIFIER_CHALLENGE_TIMEOUT_MS =
+  2 * (Number(process.env.VERIFIER_CHALLENGE_TIMEOUT_MS || process.env.VERIFIER_TIMEOUT_MS) || 10 * 60 * 1000)
+  + VERIFIER_REQUEST_TIMEOUT_MS;
+const REQUESTER_SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
+const DECIMAL_PATTERN = /^\d+(\.\d{1,6})?$/;
+// Kill fee owed to a selected solver on cancellation, scaled by how much of the delivery window has elapsed.
+const CANCEL_KILL_FEE_MAX_PERCENT = 30;
+
+// Every verification and challenge runs on each of these verifiers; a quorum of them has to agree.
+const VERIFIERS = parseVerifierSet(process.env);
+// Milestones are only paid for verification results signed by these addresses.
+const VERIFIER_ADDRESSES = configuredVerifierAddresses(process.env);
 const EVENT_LOG_PATH = process.env.V4SHM_EVENT_LOG
   ? path.resolve(repoRoot, process.env.V4SHM_EVENT_LOG)
   : path.join(repoRoot, 'data', 'events.jsonl');
@@ -70,7 +139,14 @@ function queueWorkOrder<T>(workOrderId: string, fn: () => Promise<T>): Promise<T
 await server.register(cors, { origin: true });
 await server.register(websocket);
 
-function emit(workOrderId: string, type: string, payload: unknown) {
+server.setErrorHandler((error, _request, reply) => {
+  if (error instanceof IllegalTransitionError) {
+    return reply.status(409).send({ error: error.message, from: error.from, to: error.to });
+  }
+  return reply.send(error);
+});
+
+function emit(workOrderId: string, type: string, payload: unknown, options?: { persist?: boolean }) {
   const event = {
     id: randomUUID(),
     workOrderId,
@@ -78,7 +154,7 @@ function emit(workOrderId: string, type: string, payload: unknown) {
     createdAt: Date.now(),
     payload,
   };
-  events.emit(event);
+  events.emit(event, options);
 }
 
 function buildSessionState(workOrder: WorkOrder): YellowSessionState | null {
@@ -103,19 +179,6 @@ function applySessionState(workOrder: WorkOrder, sessionState: YellowSessionStat
   workOrder.yellow.sessionVersion = sessionState.version;
 }
 
-function toUnits(amount: string, decimals: number): bigint {
-  const [whole, frac = ''] = amount.split('.');
-  const padded = `${whole}${frac.padEnd(decimals, '0')}`.replace(/^0+/, '') || '0';
-  return BigInt(padded);
-}
-
-function fromUnits(value: bigint, decimals: number): string {
-  const raw = value.toString().padStart(decimals + 1, '0');
-  const whole = raw.slice(0, -decimals) || '0';
-  const frac = raw.slice(-decimals).replace(/0+$/, '');
-  return frac ? `${whole}.${frac}` : whole;
-}
-
 function splitUnits(total: bigint, parts: number): bigint[] {
   if (parts <= 1) return [total];
   const p = BigInt(parts);
@@ -136,19 +199,83 @@ function totalPaidForMilestone(workOrderId: string, milestoneKey: string, toAddr
     .reduce((acc, evt) => acc + toUnits(String(evt.amount), YELLOW_ASSET.decimals), 0n);
 }
 
+// Transitions made on a loaded work order, written with it by the next persistWorkOrder so that a
+// handler that throws in between (a failed Yellow transfer, say) leaves no audit row behind.
+const pendingTransitions = new WeakMap<WorkOrder, WorkOrderTransition[]>();
+
+function takePendingTransitions(workOrder: WorkOrder) {
+  const transitions = pendingTransitions.get(workOrder) ?? [];
+  pendingTransitions.delete(workOrder);
+  return transitions.map((record) => ({
+    id: record.id,
+    workOrderId: record.workOrderId,
+    createdAt: record.createdAt,
+    fromStatus: record.from,
+    toStatus: record.to,
+    payload: record,
+  }));
+}
+
 function persistWorkOrder(workOrder: WorkOrder) {
-  db.updateWorkOrder({
-    id: workOrder.id,
-    createdAt: workOrder.createdAt,
-    status: workOrder.status,
-    payload: workOrder,
-  });
+  db.updateWorkOrder(
+    {
+      id: workOrder.id,
+      createdAt: workOrder.createdAt,
+      status: workOrder.status,
+      payload: workOrder,
+    },
+    takePendingTransitions(workOrder)
+  );
+}
+
+function transition(workOrder: WorkOrder, to: WorkOrderStatus, actor: WorkOrderTransitionActor, reason: string) {
+  const record = transitionWorkOrder(workOrder, to, { actor, reason });
+  pendingTransitions.set(workOrder, [...(pendingTransitions.get(workOrder) ?? []), record]);
+  return record;
+}
+
+// Returns an error message when the caller is not allowed to act as the work order's requester.
+function requesterSignatureError(
+  workOrder: WorkOrder,
+  input: { signature?: unknown; issuedAt?: unknown; revision?: unknown },
+  recover: (signature: string, issuedAt: number, revision: number) => string
+): string | null {
+  if (!workOrder.requesterSignature || !workOrder.requesterAddress) {
+    // Unsigned work orders are funded by the API's own Yellow wallet; only demo actions may drive them manually.
+    return process.env.V4SHM_DEMO_ACTIONS === 'true'
+      ? null
+      : 'Work order has no signing requester (set V4SHM_DEMO_ACTIONS=true for manual actions)';
+  }
+  if (typeof input.signature !== 'string' || typeof input.issuedAt !== 'number' || typeof input.revision !== 'number') {
+    return 'Missing requester signature';
+  }
+  if (Math.abs(Date.now() - input.issuedAt) > REQUESTER_SIGNATURE_MAX_AGE_MS) {
+    return 'Requester signature expired';
+  }
+  // The revision moves on with every transition, so a signed action cannot be replayed later.
+  if (input.revision !== (workOrder.revision ?? 0)) {
+    return 'Requester signature is not for the current revision of the work order';
+  }
+  try {
+    const recovered = recover(input.signature, input.issuedAt, input.revision);
+    if (getAddress(recovered) !== getAddress(workOrder.requesterAddress)) {
+      return 'Invalid requester signature';
+    }
+  } catch {
+    return 'Invalid requester signature';
+  }
+  return null;
+}
+
+// Fill counters added after the record was stored.
+function storedSolverStats(record: SolverStatsRecord): SolverStats {
+  return { ...emptySolverStats(record.solverAddress), ...(record.payload as SolverStats) };
 }
 
 function getSolverStats(address: string): SolverStats {
   const record = db.getSolverStats(address.toLowerCase());
   if (!record) return emptySolverStats(address.toLowerCase());
-  return record.payload as SolverStats;
+  return storedSolverStats(record);
 }
 
 function saveSolverStats(stats: SolverStats) {
@@ -158,27 +285,48 @@ function saveSolverStats(stats: SolverStats) {
   });
 }
 
-function selectBestQuote(quotes: QuotePayload[]) {
-  const reputation = new Map<string, number>();
-  for (const quote of quotes) {
-    const key = quote.solverAddress.toLowerCase();
-    if (reputation.has(key)) continue;
-    reputation.set(key, calculateReputation(getSolverStats(quote.solverAddress)).score);
-  }
-
-  return [...quotes].sort((a, b) => {
-    const priceDiff = Number(a.price) - Number(b.price);
-    if (priceDiff !== 0) return priceDiff;
-    const etaDiff = a.etaMinutes - b.etaMinutes;
-    if (etaDiff !== 0) return etaDiff;
-    const repA = reputation.get(a.solverAddress.toLowerCase()) ?? 0;
-    const repB = reputation.get(b.solverAddress.toLowerCase()) ?? 0;
-    if (repA !== repB) return repB - repA;
-    return a.createdAt - b.createdAt;
-  })[0];
+function isActiveQuote(quote: QuotePayload) {
+  return (quote.status ?? 'ACTIVE') === 'ACTIVE';
+}
+
+function listActiveQuotes(workOrderId: string) {
+  return db.listQuotes(workOrderId).map((q) => q.payload as QuotePayload).filter(isActiveQuote);
+}
+
+function recordQuoteHistory(quote: QuotePayload, action: QuoteHistoryAction) {
+  db.insertQuoteHistory({
+    id: randomUUID(),
+    quoteId: quote.id,
+    workOrderId: quote.workOrderId,
+    createdAt: quote.updatedAt ?? Date.now(),
+    action,
+    payload: quote,
+  });
+}
+
+function quoteTermsError(workOrder: WorkOrder, terms: Pick<QuotePayload, 'price' | 'etaMinutes' | 'validUntil'>) {
+  if (terms.validUntil < Date.now()) return 'Quote already expired';
+  if (typeof terms.price !== 'string' || !DECIMAL_PATTERN.test(terms.price)) {
+    return 'Quote price must be a decimal amount with at most 6 decimals';
+  }
+  if (toUnits(terms.price, YELLOW_ASSET.decimals) > toUnits(String(workOrder.bounty.amount), YELLOW_ASSET.decimals)) {
+    return 'Quote exceeds bounty amount';
+  }
+  return null;
+}
+
+function reputationScore(solverAddress: string) {
+  return calculateReputation(getSolverStats(solverAddress)).score;
 }
 
-function selectNextQuote(quotes: QuotePayload[], attempted: string[]) {
+function selectBestQuote(workOrder: WorkOrder, allQuotes: QuotePayload[]) {
+  const quotes = allQuotes.filter(isActiveQuote);
+  const [best] = scoreQuotes(workOrder.scoringPolicy, quotes, reputationScore);
+  if (!best?.eligible) return undefined;
+  return quotes.find((quote) => quote.id === best.quoteId);
+}
+
+function selectNextQuote(workOrder: WorkOrder, quotes: QuotePayload[], attempted: string[]) {
   const attemptedSolvers = new Set<string>();
   for (const attemptedId of attempted) {
     const quote = quotes.find((q) => q.id === attemptedId);
@@ -187,7 +335,7 @@ function selectNextQuote(quotes: QuotePayload[], attempted: string[]) {
 
   const filtered = quotes.filter((quote) => !attemptedSolvers.has(quote.solverAddress.toLowerCase()));
   if (filtered.length === 0) return null;
-  return selectBestQuote(filtered);
+  return selectBestQuote(workOrder, filtered) ?? null;
 }
 
 function requireWorkOrder(id: string) {
@@ -200,6 +348,17 @@ function normalizeWorkOrder(workOrder: WorkOrder): WorkOrder {
   const selection = workOrder.selection ?? { selectedQuoteId: null, selectedSolverId: null };
   return {
     ...workOrder,
+    requesterSignature: workOrder.requesterSignature ?? null,
+    revision: workOrder.revision ?? 0,
+    windows: { ...DEFAULT_WINDOWS, ...workOrder.windows },
+    scoringPolicy: workOrder.scoringPolicy ?? { ...DEFAULT_SCORING_POLICY },
+    race: workOrder.race ?? null,
+    bidding: {
+      ...workOrder.bidding,
+      mode: workOrder.bidding.mode ?? 'OPEN',
+      revealEndsAt: workOrder.bidding.revealEndsAt ?? null,
+      dutchAuction: workOrder.bidding.dutchAuction ?? null,
+    },
     selection: {
       ...selection,
       selectedAt: selection.selectedAt ?? null,
@@ -220,11 +379,15 @@ function normalizeWorkOrder(workOrder: WorkOrder): WorkOrder {
 
 function computeAllowanceTotal(workOrder: WorkOrder, quotes: QuotePayload[]) {
   const solverCount = collectSessionSolversFromQuotes(quotes).length;
-  return (Number(workOrder.bounty.amount) + QUOTE_REWARD * solverCount).toFixed(2);
+  // Race mode also reserves a consolation payment for every racer but the winner.
+  const consolation = workOrder.race
+    ? Number(workOrder.race.consolationAmount) * Math.max(0, Math.min(workOrder.race.solvers, solverCount) - 1)
+    : 0;
+  return (Number(workOrder.bounty.amount) + QUOTE_REWARD * solverCount + consolation).toFixed(2);
 }
 
 function collectSessionSolversFromQuotes(quotes: QuotePayload[]) {
-  const sorted = [...quotes].sort((a, b) => a.createdAt - b.createdAt);
+  const sorted = quotes.filter(isActiveQuote).sort((a, b) => a.createdAt - b.createdAt);
   const solvers: string[] = [];
   const seen = new Set<string>();
   for (const quote of sorted) {
@@ -291,20 +454,50 @@ function yellowClientForWorkOrder(workOrder: WorkOrder) {
   return yellowClientReal;
 }
 
-function applySelection(workOrder: WorkOrder, selectedQuote: QuotePayload) {
+function applySelection(
+  workOrder: WorkOrder,
+  selectedQuote: QuotePayload,
+  actor: WorkOrderTransitionActor,
+  reason: string,
+  racers?: QuotePayload[]
+) {
+  // The state machine resets challenge/patch state when entering SELECTED.
+  transition(workOrder, 'SELECTED', actor, reason);
   const now = Date.now();
-  workOrder.status = 'SELECTED';
   workOrder.selection.selectedQuoteId = selectedQuote.id;
   workOrder.selection.selectedSolverId = selectedQuote.solverAddress;
+  workOrder.selection.racers = racers?.map((quote) => ({ quoteId: quote.id, solverAddress: quote.solverAddress }));
+  workOrder.verification.racers = [];
   workOrder.selection.selectedAt = now;
-  workOrder.deadlines.deliveryEndsAt = now + DELIVERY_WINDOW_MS;
-  workOrder.deadlines.verifyEndsAt = now + VERIFY_WINDOW_MS;
-  workOrder.deadlines.challengeEndsAt = null;
-  workOrder.deadlines.patchEndsAt = null;
-  workOrder.challenge.status = 'NONE';
-  workOrder.challenge.challengeId = null;
-  workOrder.challenge.challengerAddress = null;
-  workOrder.challenge.pendingRewardAmount = null;
+  workOrder.deadlines.deliveryEndsAt = now + workOrder.windows.deliveryMs;
+  // Set per verification attempt once a delivery arrives.
+  workOrder.deadlines.verifyEndsAt = null;
+}
+
+// Race mode: the leader plus the next best quotes from other solvers that have not failed yet.
+function pickRacers(workOrder: WorkOrder, leader: QuotePayload, candidates: QuotePayload[]) {
+  if (!workOrder.race) return undefined;
+  const attempted = new Set(workOrder.selection.attemptedQuoteIds ?? []);
+  const excludedSolvers = new Set(
+    candidates.filter((quote) => attempted.has(quote.id)).map((quote) => quote.solverAddress.toLowerCase())
+  );
+  excludedSolvers.add(leader.solverAddress.toLowerCase());
+
+  const racers = [leader];
+  for (const entry of scoreQuotes(workOrder.scoringPolicy, candidates, reputationScore)) {
+    if (racers.length >= workOrder.race.solvers) break;
+    if (!entry.eligible || excludedSolvers.has(entry.solverAddress.toLowerCase())) continue;
+    const quote = candidates.find((candidate) => candidate.id === entry.quoteId);
+    if (!quote) continue;
+    excludedSolvers.add(quote.solverAddress.toLowerCase());
+    racers.push(quote);
+  }
+  return racers;
+}
+
+function activeRacers(workOrder: WorkOrder) {
+  const attempted = workOrder.selection.attemptedQuoteIds ?? [];
+  return (workOrder.selection.racers ?? []).filter((racer) => !attempted.includes(racer.quoteId));
 }
 
 function hasPaymentEvent(workOrderId: string, predicate: (evt: PaymentEvent) => boolean) {
@@ -462,29 +655,38 @@ async function ensureQuoteRewardsPaid(workOrder: WorkOrder, quotes: QuotePayload
   }
 }
 
-async function settleWorkOrder(workOrder: WorkOrder) {
-  if (workOrder.status !== 'PASSED_PENDING_CHALLENGE') return null;
-  if (workOrder.challenge.status === 'PATCH_WINDOW') return null;
+async function settleWorkOrder(workOrder: WorkOrder, actor: WorkOrderTransitionActor) {
+  if (!canTransition(workOrder, 'COMPLETED', actor)) return null;
 
   const selectedQuoteId = workOrder.selection.selectedQuoteId;
   const selectedQuote = selectedQuoteId
     ? (db.listQuotes(workOrder.id).map((q) => q.payload as QuotePayload).find((q) => q.id === selectedQuoteId) ?? null)
     : null;
   const basePrice = selectedQuote ? Number(selectedQuote.price) : Number(workOrder.bounty.amount);
-  const holdback = ((basePrice * 20) / 100).toFixed(4);
+  const holdback = ((basePrice * holdbackPercent(workOrder.milestones.payoutSchedule)) / 100).toFixed(4);
 
   const solver = workOrder.selection.selectedSolverId ?? '0x0000000000000000000000000000000000000000';
   const holdbackUnits = toUnits(holdback, YELLOW_ASSET.decimals);
-  const alreadyPaidUnits = totalPaidForMilestone(workOrder.id, 'M5_NO_CHALLENGE_OR_PATCH_OK', solver);
-  if (alreadyPaidUnits < holdbackUnits) {
+  const alreadyPaidUnits = totalPaidForMilestone(workOrder.id, HOLDBACK_MILESTONE_KEY, solver);
+  const owedUnits = holdbackUnits > alreadyPaidUnits ? holdbackUnits - alreadyPaidUnits : 0n;
+  const payableUnits = allowanceCapUnits(workOrder, owedUnits);
+  if (payableUnits < owedUnits) {
+    emit(workOrder.id, 'milestonePaymentCapped', {
+      milestoneKey: HOLDBACK_MILESTONE_KEY,
+      toAddress: solver,
+      owed: fromUnits(owedUnits, YELLOW_ASSET.decimals),
+      paid: fromUnits(payableUnits, YELLOW_ASSET.decimals),
+    });
+  }
+  if (payableUnits > 0n) {
     const paymentEvent: PaymentEvent = {
       id: randomUUID(),
       workOrderId: workOrder.id,
       type: 'MILESTONE',
       toAddress: solver,
-      amount: fromUnits(holdbackUnits - alreadyPaidUnits, YELLOW_ASSET.decimals),
+      amount: fromUnits(payableUnits, YELLOW_ASSET.decimals),
       yellowTransferId: null,
-      milestoneKey: 'M5_NO_CHALLENGE_OR_PATCH_OK',
+      milestoneKey: HOLDBACK_MILESTONE_KEY,
       createdAt: Date.now(),
     };
     await recordPayment(workOrder, paymentEvent);
@@ -495,13 +697,13 @@ async function settleWorkOrder(workOrder: WorkOrder) {
   if (!sessionState) return null;
   const result = await yellowClientForWorkOrder(workOrder).closeSession({ workOrderId: workOrder.id, sessionState });
   workOrder.yellow.settlementTxId = result.settlementTxId;
-  workOrder.status = 'COMPLETED';
+  transition(workOrder, 'COMPLETED', actor, 'settled');
   persistWorkOrder(workOrder);
   emit(workOrder.id, 'workOrderCompleted', { settlement: result });
   return result;
 }
 
-async function finalizeChallengeFailure(workOrder: WorkOrder) {
+async function finalizeChallengeFailure(workOrder: WorkOrder, actor: WorkOrderTransitionActor, reason: string) {
   const challenger = workOrder.challenge.challengerAddress;
   const pending = workOrder.challenge.pendingRewardAmount;
   if (!challenger || !pending) return;
@@ -515,7 +717,7 @@ async function finalizeChallengeFailure(workOrder: WorkOrder) {
       toAddress: challenger,
       amount: pending,
       yellowTransferId: null,
-      milestoneKey: 'M5_NO_CHALLENGE_OR_PATCH_OK',
+      milestoneKey: HOLDBACK_MILESTONE_KEY,
       createdAt: Date.now(),
     };
     await recordPayment(workOrder, paymentEvent);
@@ -538,13 +740,73 @@ async function finalizeChallengeFailure(workOrder: WorkOrder) {
   challengerStats.challengesWon += 1;
   saveSolverStats(challengerStats);
 
-  workOrder.status = 'FAILED';
+  transition(workOrder, 'FAILED', actor, reason);
   workOrder.challenge.status = 'PATCH_FAILED';
   workOrder.challenge.pendingRewardAmount = null;
   persistWorkOrder(workOrder);
   emit(workOrder.id, 'challengeFailed', { workOrderId: workOrder.id });
 }
 
+function computeKillFee(workOrder: WorkOrder, selectedQuote: QuotePayload | null, now: number): bigint {
+  if (workOrder.status !== 'SELECTED' || !selectedQuote) return 0n;
+  const selectedAt = workOrder.selection.selectedAt ?? now;
+  const deliveryEndsAt = workOrder.deadlines.deliveryEndsAt ?? now;
+  const windowMs = Math.max(1, deliveryEndsAt - selectedAt);
+  const elapsedMs = Math.min(windowMs, Math.max(0, now - selectedAt));
+  // Rounds down to whole units.
+  const maxFeeUnits = toUnits(selectedQuote.price, YELLOW_ASSET.decimals) * BigInt(CANCEL_KILL_FEE_MAX_PERCENT);
+  return (maxFeeUnits * BigInt(elapsedMs)) / (100n * BigInt(windowMs));
+}
+
+function unspentAllowanceUnits(workOrder: WorkOrder): bigint {
+  if (!workOrder.yellow.allowanceTotal) return 0n;
+  // Every payment (including earlier refunds) is drawn from the requester's session allocation.
+  const spent = db
+    .listPaymentEvents(workOrder.id)
+    .map((evt) => evt.payload as PaymentEvent)
+    .reduce((acc, evt) => acc + toUnits(String(evt.amount), YELLOW_ASSET.decimals), 0n);
+  const total = toUnits(workOrder.yellow.allowanceTotal, YELLOW_ASSET.decimals);
+  return total > spent ? total - spent : 0n;
+}
+
+// Payouts after a verdict take at most what is left of the session allowance: a failed solver's
+// streamed milestones were drawn from the same allocation, and Yellow rejects an overdrawn transfer.
+function allowanceCapUnits(workOrder: WorkOrder, units: bigint): bigint {
+  if (!workOrder.yellow.allowanceTotal) return units;
+  const unspent = unspentAllowanceUnits(workOrder);
+  return units > unspent ? unspent : units;
+}
+
+// Each verifier hashes the harness it runs; work orders are pinned to it at creation.
+async function fetchHarnessIdentity(verifierUrl: string): Promise<
+  { ok: true; identity: { version: string | null; hash: string } } | { ok: false; error: string }
+> {
+  try {
+    const response = await fetch(`${verifierUrl}/harness`, { signal: AbortSignal.timeout(VERIFIER_REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      return { ok: false, error: `Verifier responded ${response.status}: ${await response.text()}` };
+    }
+    return { ok: true, identity: (await response.json()) as { version: string | null; hash: string } };
+  } catch (err) {
+    return { ok: false, error: String((err as any)?.message ?? err) };
+  }
+}
+
+// The harness hash a quorum of verifiers runs; verifiers on another harness will fail their jobs.
+async function pinHarness(): Promise<
+  { ok: true; identity: { version: string | null; hash: string } } | { ok: false; error: string }
+> {
+  const fetched = await Promise.all(VERIFIERS.urls.map((verifierUrl) => fetchHarnessIdentity(verifierUrl)));
+  const identities = fetched.flatMap((entry) => (entry.ok ? [entry.identity] : []));
+  const hash = quorumOutcome(identities.map((identity) => identity.hash), VERIFIERS.quorum);
+  const identity = identities.find((entry) => entry.hash === hash);
+  if (!identity) {
+    const details = fetched.map((entry, index) => `${VERIFIERS.urls[index]}: ${entry.ok ? entry.identity.hash : entry.error}`);
+    return { ok: false, error: details.join('; ') };
+  }
+  return { ok: true, identity };
+}
+
 server.get('/health', async () => ({ ok: true }));
 
 server.get('/config', async () => {
@@ -585,10 +847,15 @@ server.get('/config', async () => {
     verifier: {
       chainId,
       address: verifierAddress,
+      urls: VERIFIERS.urls,
+      quorum: VERIFIERS.quorum,
+      attestationAddresses: VERIFIER_ADDRESSES,
     },
   };
 });
 
+server.get('/templates', async () => HOOK_TEMPLATES);
+
 server.get('/work-orders', async (request) => {
   const { status } = request.query as { status?: string };
   const records = db.listWorkOrders(status);
@@ -602,6 +869,14 @@ server.post('/work-orders', async (request, reply) => {
     params?: Record<string, unknown>;
     bounty?: { currency: string; amount: string | number };
     requesterAddress?: string;
+    windows?: Partial<WorkOrder['windows']>;
+    payoutSchedule?: WorkOrder['milestones']['payoutSchedule'];
+    biddingMode?: WorkOrder['bidding']['mode'];
+    scoringPolicy?: WorkOrder['scoringPolicy'];
+    dutchAuction?: { startPrice?: string; stepMs?: number };
+    race?: { solvers?: number; consolationAmount?: string };
+    signature?: string;
+    issuedAt?: number;
   };
 
   if (!body?.title || !body?.templateType || !body?.bounty) {
@@ -610,6 +885,63 @@ server.post('/work-orders', async (request, reply) => {
     });
   }
 
+  const template = getHookTemplate(body.templateType);
+  if (!template) {
+    return reply.status(400).send({
+      error: `Unknown templateType: ${body.templateType}`,
+      templates: HOOK_TEMPLATES.map((candidate) => candidate.type),
+    });
+  }
+
+  const paramErrors = validateTemplateParams(template, body.params ?? {});
+  if (Object.keys(paramErrors).length > 0) {
+    return reply.status(400).send({ error: 'Invalid params', fields: paramErrors });
+  }
+
+  const biddingMode = body.biddingMode ?? 'OPEN';
+  if (biddingMode !== 'OPEN' && biddingMode !== 'SEALED' && biddingMode !== 'DUTCH') {
+    return reply.status(400).send({ error: 'Invalid biddingMode (expected OPEN, SEALED or DUTCH)' });
+  }
+  if (body.dutchAuction !== undefined && biddingMode !== 'DUTCH') {
+    return reply.status(400).send({ error: 'dutchAuction is only allowed with biddingMode DUTCH' });
+  }
+
+  const parsedWindows = parseWindows(body.windows);
+  if (!parsedWindows.ok) {
+    return reply.status(400).send({ error: 'Invalid windows', fields: parsedWindows.errors });
+  }
+  const windows = parsedWindows.windows;
+
+  let dutchAuction: Omit<DutchAuction, 'startsAt'> | null = null;
+  if (biddingMode === 'DUTCH') {
+    const parsedAuction = parseDutchAuction(body.dutchAuction, { bountyAmount: String(body.bounty.amount), windows });
+    if (!parsedAuction.ok) {
+      return reply.status(400).send({ error: 'Invalid dutchAuction', fields: parsedAuction.errors });
+    }
+    dutchAuction = parsedAuction.auction;
+  }
+
+  const parsedSchedule = parsePayoutSchedule(body.payoutSchedule, template);
+  if (!parsedSchedule.ok) {
+    return reply.status(400).send({ error: 'Invalid payoutSchedule', fields: parsedSchedule.errors });
+  }
+  const payoutSchedule = parsedSchedule.schedule;
+
+  const parsedRace = parseRace(body.race, { bountyAmount: String(body.bounty.amount) });
+  if (!parsedRace.ok) {
+    return reply.status(400).send({ error: 'Invalid race', fields: parsedRace.errors });
+  }
+  if (parsedRace.race && biddingMode === 'DUTCH') {
+    return reply.status(400).send({ error: 'Race mode is not available for Dutch auctions' });
+  }
+  const race = parsedRace.race;
+
+  const parsedPolicy = parseScoringPolicy(body.scoringPolicy);
+  if (!parsedPolicy.ok) {
+    return reply.status(400).send({ error: 'Invalid scoringPolicy', fields: parsedPolicy.errors });
+  }
+  const scoringPolicy = parsedPolicy.policy;
+
   let requesterAddress: string | null = null;
   if (body.requesterAddress) {
     try {
@@ -619,14 +951,51 @@ server.post('/work-orders', async (request, reply) => {
     }
   }
 
+  // A named requester must prove control of the address; it will own select/end-session for this order.
+  let requesterSignature: string | null = null;
+  if (requesterAddress) {
+    if (typeof body.signature !== 'string' || typeof body.issuedAt !== 'number') {
+      return reply.status(400).send({ error: 'Missing requester signature' });
+    }
+    if (Math.abs(Date.now() - body.issuedAt) > REQUESTER_SIGNATURE_MAX_AGE_MS) {
+      return reply.status(400).send({ error: 'Requester signature expired' });
+    }
+    const message: WorkOrderMessage = {
+      title: body.title,
+      templateType: body.templateType,
+      paramsHash: sha256Hex(JSON.stringify(body.params ?? {})),
+      windowsHash: sha256Hex(JSON.stringify(body.windows ?? {})),
+      payoutScheduleHash: sha256Hex(JSON.stringify(body.payoutSchedule ?? [])),
+      biddingMode,
+      scoringPolicyHash: sha256Hex(JSON.stringify(body.scoringPolicy ?? {})),
+      dutchAuctionHash: sha256Hex(JSON.stringify(body.dutchAuction ?? {})),
+      raceHash: sha256Hex(JSON.stringify(body.race ?? {})),
+      bountyCurrency: body.bounty.currency,
+      bountyAmount: String(body.bounty.amount),
+      issuedAt: body.issuedAt,
+    };
+    try {
+      if (getAddress(recoverWorkOrderSigner(message, body.signature)) !== requesterAddress) {
+        return reply.status(403).send({ error: 'Invalid requester signature' });
+      }
+    } catch {
+      return reply.status(403).send({ error: 'Invalid requester signature' });
+    }
+    requesterSignature = body.signature;
+  }
+
+  const harness = await pinHarness();
+  if (!harness.ok) {
+    return reply.status(503).send({ error: 'No verifier quorum on the harness; cannot pin it', details: harness.error });
+  }
+
   const now = Date.now();
   const id = randomUUID();
-  const status: WorkOrder['status'] = 'BIDDING';
 
   const workOrder: WorkOrder = {
     id,
     createdAt: now,
-    status,
+    status: 'DRAFT',
     title: body.title,
     templateType: body.templateType,
     params: body.params ?? {},
@@ -635,8 +1004,15 @@ server.post('/work-orders', async (request, reply) => {
       amount: String(body.bounty.amount),
     },
     requesterAddress,
+    requesterSignature,
+    windows,
+    scoringPolicy,
+    race,
     bidding: {
-      biddingEndsAt: now + BIDDING_WINDOW_MS,
+      mode: biddingMode,
+      biddingEndsAt: now + windows.biddingMs,
+      revealEndsAt: null,
+      dutchAuction: dutchAuction ? { ...dutchAuction, startsAt: now } : null,
     },
     deadlines: {
       deliveryEndsAt: null,
@@ -665,29 +1041,27 @@ server.post('/work-orders', async (request, reply) => {
       sessionVersion: undefined,
     },
     milestones: {
-      payoutSchedule: [
-        { key: 'M1_COMPILE_OK', percent: 10 },
-        { key: 'M2_TESTS_OK', percent: 25 },
-        { key: 'M3_DEPLOY_OK', percent: 20 },
-        { key: 'M4_V4_POOL_PROOF_OK', percent: 25 },
-        { key: 'M5_NO_CHALLENGE_OR_PATCH_OK', percent: 20 },
-      ],
+      payoutSchedule,
     },
     artifacts: {
-      harnessVersion: null,
-      harnessHash: null,
+      harnessVersion: harness.identity.version,
+      harnessHash: harness.identity.hash,
     },
     verification: {
       verificationReportId: null,
     },
   };
 
-  db.insertWorkOrder({
-    id,
-    createdAt: now,
-    status,
-    payload: workOrder,
-  });
+  transition(workOrder, 'BIDDING', 'requester', 'created');
+  db.insertWorkOrder(
+    {
+      id,
+      createdAt: now,
+      status: workOrder.status,
+      payload: workOrder,
+    },
+    takePendingTransitions(workOrder)
+  );
 
   emit(id, 'workOrderCreated', workOrder);
 
@@ -709,8 +1083,82 @@ server.get('/work-orders/:id/quotes', async (request, reply) => {
   if (!workOrder) {
     return reply.status(404).send({ error: 'Work order not found' });
   }
-  const quotes = db.listQuotes(id).map((q) => q.payload);
-  return quotes;
+  return listActiveQuotes(id);
+});
+
+server.get('/work-orders/:id/quotes/history', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const workOrder = requireWorkOrder(id);
+  if (!workOrder) {
+    return reply.status(404).send({ error: 'Work order not found' });
+  }
+  return db.listQuoteHistory(id).map(
+    (entry): QuoteHistoryEntry => ({
+      id: entry.id,
+      quoteId: entry.quoteId,
+      workOrderId: entry.workOrderId,
+      action: entry.action as QuoteHistoryAction,
+      quote: entry.payload as QuotePayload,
+      createdAt: entry.createdAt,
+    })
+  );
+});
+
+// Mirrors the automatic pick in /select: session non-participants are skipped, and solvers that
+// already failed are skipped while anyone else is left.
+server.get('/work-orders/:id/selection-explain', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const workOrder = requireWorkOrder(id);
+  if (!workOrder) {
+    return reply.status(404).send({ error: 'Work order not found' });
+  }
+
+  const quotes = listActiveQuotes(id);
+  const allowedSolvers = new Set(
+    (workOrder.yellow.participants ?? []).slice(1).map((participant) => participant.toLowerCase())
+  );
+  const excluded = new Map<string, string>();
+  if (allowedSolvers.size > 0) {
+    for (const quote of quotes) {
+      if (!allowedSolvers.has(quote.solverAddress.toLowerCase())) excluded.set(quote.id, 'Not a session participant');
+    }
+  }
+  const attempted = workOrder.selection.attemptedQuoteIds ?? [];
+  const attemptedSolvers = new Set(
+    quotes.filter((quote) => attempted.includes(quote.id)).map((quote) => quote.solverAddress.toLowerCase())
+  );
+  const untried = quotes.filter(
+    (quote) => !excluded.has(quote.id) && !attemptedSolvers.has(quote.solverAddress.toLowerCase())
+  );
+  if (untried.length > 0) {
+    for (const quote of quotes) {
+      if (!excluded.has(quote.id) && attemptedSolvers.has(quote.solverAddress.toLowerCase())) {
+        excluded.set(quote.id, 'Solver already attempted delivery');
+      }
+    }
+  }
+
+  const scored = scoreQuotes(workOrder.scoringPolicy, quotes, reputationScore, excluded);
+  const winner = scored.find((entry) => entry.eligible) ?? null;
+  const explanation: SelectionExplanation = {
+    workOrderId: id,
+    status: workOrder.status,
+    policy: workOrder.scoringPolicy,
+    selectedQuoteId: workOrder.selection.selectedQuoteId,
+    winnerQuoteId: winner?.quoteId ?? null,
+    reason: explainWinner(workOrder.scoringPolicy, scored),
+    quotes: scored,
+  };
+  return explanation;
+});
+
+server.get('/work-orders/:id/quote-commitments', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const workOrder = requireWorkOrder(id);
+  if (!workOrder) {
+    return reply.status(404).send({ error: 'Work order not found' });
+  }
+  return db.listQuoteCommitments(id).map((c) => c.payload);
 });
 
 server.get('/work-orders/:id/submissions', async (request, reply) => {
@@ -736,9 +1184,45 @@ server.get('/work-orders/:id/verification', async (request, reply) => {
   return report?.payload ?? null;
 });
 
+// Verifier job callbacks only trigger a re-read of the job, so the body is not trusted.
+server.post('/work-orders/:id/verification/callback', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const body = request.body as { jobId?: string } | undefined;
+  const workOrder = requireWorkOrder(id);
+  if (!workOrder) {
+    return reply.status(404).send({ error: 'Work order not found' });
+  }
+  const attempts = [workOrder.verification, ...(workOrder.verification.racers ?? [])];
+  if (!body?.jobId || !attempts.some((attempt) => (attempt.jobs ?? []).some((job) => job.jobId === body.jobId))) {
+    return reply.status(409).send({ error: 'Job is not the current verification attempt' });
+  }
+  refreshVerification(id).catch((err) => server.log.error(err, 'verification refresh failed'));
+  return reply.status(202).send({ ok: true });
+});
+
+server.get('/work-orders/:id/disputes', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const workOrder = requireWorkOrder(id);
+  if (!workOrder) {
+    return reply.status(404).send({ error: 'Work order not found' });
+  }
+  return db.listVerificationDisputes(id).map((record) => record.payload as VerificationDispute);
+});
+
+server.get('/work-orders/:id/transitions', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const workOrder = requireWorkOrder(id);
+  if (!workOrder) {
+    return reply.status(404).send({ error: 'Work order not found' });
+  }
+  return db.listTransitions(id).map((record) => record.payload as WorkOrderTransition);
+});
+
 server.post('/work-orders/:id/select', async (request, reply) => {
   const { id } = request.params as { id: string };
-  const body = request.body as { quoteId?: string; force?: boolean } | undefined;
+  const body = request.body as
+    | { quoteId?: string; force?: boolean; signature?: string; issuedAt?: number; revision?: number }
+    | undefined;
   const { force } = (request.query as { force?: string }) ?? {};
   const forceSelect = body?.force === true || force === 'true';
   const allowForceSelect = process.env.V4SHM_DEMO_ACTIONS === 'true';
@@ -748,10 +1232,42 @@ server.post('/work-orders/:id/select', async (request, reply) => {
     if (!record) return { status: 404, body: { error: 'Work order not found' } };
     const workOrder = normalizeWorkOrder(record.payload as WorkOrder);
 
-    if (!['BIDDING', 'FAILED', 'EXPIRED'].includes(workOrder.status)) {
+    const authError = requesterSignatureError(workOrder, body ?? {}, (signature, issuedAt, revision) => {
+      const message: SelectQuoteMessage = {
+        workOrderId: id,
+        quoteId: body?.quoteId ?? '',
+        force: forceSelect,
+        revision,
+        issuedAt,
+      };
+      return recoverSelectQuoteSigner(message, signature);
+    });
+    if (authError) {
+      return { status: 403, body: { error: authError } };
+    }
+
+    if (!['BIDDING', 'REVEAL', 'FAILED', 'EXPIRED'].includes(workOrder.status)) {
       return { status: 400, body: { error: 'Work order cannot be selected in the current state' } };
     }
 
+    if (workOrder.status === 'BIDDING' && workOrder.bidding.mode === 'SEALED') {
+      return { status: 400, body: { error: 'Sealed bids must be revealed before selection' } };
+    }
+    if (workOrder.status === 'BIDDING' && workOrder.bidding.mode === 'DUTCH') {
+      return { status: 400, body: { error: 'Dutch auctions close on the first solver acceptance' } };
+    }
+
+    const revealEndsAt = workOrder.bidding.revealEndsAt;
+    if (workOrder.status === 'REVEAL' && revealEndsAt !== null && Date.now() < revealEndsAt) {
+      if (!forceSelect) {
+        return { status: 400, body: { error: 'Reveal window still open. Use ?force=true to select early.' } };
+      }
+      if (!allowForceSelect) {
+        return { status: 400, body: { error: 'Force select disabled (set V4SHM_DEMO_ACTIONS=true)' } };
+      }
+      workOrder.bidding.revealEndsAt = Date.now();
+    }
+
     if (workOrder.status === 'BIDDING' && Date.now() < workOrder.bidding.biddingEndsAt) {
       if (!forceSelect) {
         return { status: 400, body: { error: 'Bidding window still open. Use ?force=true to select early.' } };
@@ -762,10 +1278,13 @@ server.post('/work-orders/:id/select', async (request, reply) => {
       workOrder.bidding.biddingEndsAt = Date.now();
     }
 
-    const quotes = db.listQuotes(id).map((q) => q.payload as QuotePayload);
+    const quotes = listActiveQuotes(id);
     if (quotes.length === 0) {
       return { status: 400, body: { error: 'No quotes to select' } };
     }
+    if (!body?.quoteId && !selectBestQuote(workOrder, quotes)) {
+      return { status: 400, body: { error: 'No quote meets the scoring policy' } };
+    }
 
     try {
       const session = await ensureYellowSession(workOrder, quotes);
@@ -791,13 +1310,19 @@ server.post('/work-orders/:id/select', async (request, reply) => {
     const availableQuotes = eligibleQuotes.filter((quote) => !attempted.includes(quote.id));
     const selectedQuote = body?.quoteId
       ? eligibleQuotes.find((quote) => quote.id === body.quoteId)
-      : selectBestQuote(availableQuotes.length > 0 ? availableQuotes : eligibleQuotes);
+      : selectBestQuote(workOrder, availableQuotes.length > 0 ? availableQuotes : eligibleQuotes);
 
     if (!selectedQuote) {
       return { status: 404, body: { error: 'Quote not found' } };
     }
 
-    applySelection(workOrder, selectedQuote);
+    applySelection(
+      workOrder,
+      selectedQuote,
+      'requester',
+      body?.quoteId ? 'quote_selected' : 'best_quote_selected',
+      pickRacers(workOrder, selectedQuote, eligibleQuotes)
+    );
 
     const winStats = getSolverStats(selectedQuote.solverAddress);
     winStats.quotesWon += 1;
@@ -813,12 +1338,19 @@ server.post('/work-orders/:id/select', async (request, reply) => {
   return reply.status(result.status).send(result.body);
 });
 
-server.post('/work-orders/:id/submit', async (request, reply) => {
+// Reverse Dutch auction: the first solver to accept the current price is selected immediately.
+server.post('/work-orders/:id/accept', async (request, reply) => {
   const { id } = request.params as { id: string };
-  const body = request.body as SubmissionPayload;
+  const body = request.body as AuctionAcceptancePayload;
 
-  if (body.workOrderId !== id) {
-    return reply.status(400).send({ error: 'Work order ID mismatch' });
+  if (body?.workOrderId !== id) {
+    return reply.status(400).send({ error: 'workOrderId mismatch' });
+  }
+  if (typeof body.price !== 'string' || !Number.isInteger(body.etaMinutes) || typeof body.issuedAt !== 'number') {
+    return reply.status(400).send({ error: 'Missing required fields: price, etaMinutes, issuedAt' });
+  }
+  if (!DECIMAL_PATTERN.test(body.price) || Number(body.price) <= 0) {
+    return reply.status(400).send({ error: 'price must be a positive decimal amount with at most 6 decimals' });
   }
 
   const result = await queueWorkOrder(id, async () => {
@@ -826,183 +1358,717 @@ server.post('/work-orders/:id/submit', async (request, reply) => {
     if (!record) return { status: 404, body: { error: 'Work order not found' } };
     const workOrder = normalizeWorkOrder(record.payload as WorkOrder);
 
-    const canSubmit =
-      workOrder.status === 'SELECTED'
-      || (workOrder.status === 'CHALLENGED' && workOrder.deadlines.patchEndsAt !== null && Date.now() <= workOrder.deadlines.patchEndsAt);
-    if (!canSubmit) {
-      return { status: 400, body: { error: 'Work order is not ready for submission' } };
+    const auction = workOrder.bidding.dutchAuction;
+    if (workOrder.bidding.mode !== 'DUTCH' || !auction) {
+      return { status: 400, body: { error: 'Work order is not a Dutch auction' } };
     }
-
-    if (workOrder.selection.selectedSolverId &&
-        getAddress(body.solverAddress) !== getAddress(workOrder.selection.selectedSolverId)) {
-      return { status: 403, body: { error: 'Solver is not selected for this work order' } };
+    if (workOrder.status !== 'BIDDING') {
+      return { status: 409, body: { error: 'Auction already closed' } };
+    }
+    const now = Date.now();
+    if (now > workOrder.bidding.biddingEndsAt) {
+      return { status: 400, body: { error: 'Bidding window closed' } };
+    }
+    if (Math.abs(now - body.issuedAt) > REQUESTER_SIGNATURE_MAX_AGE_MS) {
+      return { status: 400, body: { error: 'Acceptance signature expired' } };
     }
 
-    const message: SubmissionMessage = {
-      workOrderId: body.workOrderId,
-      repoUrl: body.artifact.repoUrl,
-      commitSha: body.artifact.commitSha,
-      artifactHash: body.artifact.artifactHash,
+    const message: AuctionAcceptanceMessage = {
+      workOrderId: id,
+      price: body.price,
+      etaMinutes: body.etaMinutes,
+      issuedAt: body.issuedAt,
     };
-    const recovered = recoverSubmissionSigner(message, body.signature);
-    if (getAddress(recovered) !== getAddress(body.solverAddress)) {
-      return { status: 400, body: { error: 'Invalid submission signature' } };
+    try {
+      if (getAddress(recoverAuctionAcceptanceSigner(message, body.signature)) !== getAddress(body.solverAddress)) {
+        return { status: 400, body: { error: 'Invalid acceptance signature' } };
+      }
+    } catch {
+      return { status: 400, body: { error: 'Invalid acceptance signature' } };
     }
 
-    const computedHash = sha256Hex(`${body.artifact.repoUrl}:${body.artifact.commitSha}`);
-    if (computedHash !== body.artifact.artifactHash) {
-      return { status: 400, body: { error: 'Artifact hash mismatch' } };
+    const currentPrice = dutchPriceAt(auction, workOrder.bounty.amount, now);
+    if (toUnits(body.price, YELLOW_ASSET.decimals) > toUnits(currentPrice, YELLOW_ASSET.decimals)) {
+      return { status: 400, body: { error: 'Price above the current auction price', currentPrice } };
     }
 
-    db.insertSubmission({
-      id: body.id,
+    // The acceptance is stored as the work order's only quote so sessions, payouts and
+    // reputation work as they do for bid selection.
+    const quote: QuotePayload = {
+      id: randomUUID(),
       workOrderId: id,
-      createdAt: body.createdAt,
-      payload: body,
-    });
+      solverAddress: body.solverAddress,
+      price: body.price,
+      etaMinutes: body.etaMinutes,
+      validUntil: now + workOrder.windows.deliveryMs,
+      signature: body.signature,
+      createdAt: now,
+      status: 'ACTIVE',
+      revision: 0,
+      updatedAt: now,
+    };
+    db.insertQuote({ id: quote.id, workOrderId: id, createdAt: now, payload: quote });
+    recordQuoteHistory(quote, 'CREATED');
 
-    workOrder.status = 'VERIFYING';
-    db.updateWorkOrder({
-      id: workOrder.id,
-      createdAt: workOrder.createdAt,
-      status: workOrder.status,
-      payload: workOrder,
-    });
+    const stats = getSolverStats(quote.solverAddress);
+    stats.quotesSubmitted += 1;
+    saveSolverStats(stats);
+    emit(id, 'quoteCreated', quote);
 
-    emit(id, 'submissionReceived', body);
+    try {
+      const session = await ensureYellowSession(workOrder, [quote]);
+      emit(id, 'yellowSessionCreated', session);
+      await ensureQuoteRewardsPaid(workOrder, [quote]);
+    } catch (error) {
+      server.log.error(error, 'failed to create Yellow session for auction acceptance');
+      // Leave the auction open; the acceptance is withdrawn so another solver can take it.
+      const withdrawn: QuotePayload = { ...quote, status: 'WITHDRAWN', updatedAt: Date.now() };
+      db.updateQuote({ id: withdrawn.id, workOrderId: id, createdAt: withdrawn.createdAt, payload: withdrawn });
+      recordQuoteHistory(withdrawn, 'WITHDRAWN');
+      const details = process.env.V4SHM_DEMO_ACTIONS === 'true'
+        ? String((error as any)?.message ?? error)
+        : undefined;
+      return { status: 500, body: { error: 'Failed to create Yellow session', details } };
+    }
+
+    workOrder.bidding.biddingEndsAt = now;
+    applySelection(workOrder, quote, 'solver', 'auction_accepted');
+
+    stats.quotesWon += 1;
+    saveSolverStats(stats);
+    persistWorkOrder(workOrder);
+    emit(id, 'solverSelected', { workOrderId: id, quote });
 
-    const verifierResponse = await fetch(`${VERIFIER_URL}/verify`, {
+    return { status: 200, body: workOrder };
+  });
+
+  return reply.status(result.status).send(result.body);
+});
+
+// Queues a verification job on one verifier. Timeouts, network errors and verifier error responses
+// are infrastructure failures, not a verdict on the submission.
+async function enqueueVerificationJob(
+  verifierUrl: string,
+  workOrder: WorkOrder,
+  submission: SubmissionPayload
+): Promise<{ ok: true; job: VerificationJob } | { ok: false; error: string }> {
+  try {
+    const response = await fetch(`${verifierUrl}/jobs`, {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ workOrder, submission: body }),
+      body: JSON.stringify({
+        workOrder,
+        submission,
+        callbackUrl: `${API_URL}/work-orders/${workOrder.id}/verification/callback`,
+      }),
+      signal: AbortSignal.timeout(VERIFIER_REQUEST_TIMEOUT_MS),
     });
-
-    if (!verifierResponse.ok) {
-      const errorText = await verifierResponse.text();
-      workOrder.status = 'FAILED';
-      db.updateWorkOrder({
-        id: workOrder.id,
-        createdAt: workOrder.createdAt,
-        status: workOrder.status,
-        payload: workOrder,
-      });
-      emit(id, 'verificationFailed', { error: errorText });
-      return { status: 500, body: { error: 'Verifier failed', details: errorText } };
+    if (!response.ok) {
+      return { ok: false, error: `Verifier responded ${response.status}: ${await response.text()}` };
     }
+    return { ok: true, job: (await response.json()) as VerificationJob };
+  } catch (err) {
+    if ((err as any)?.name === 'TimeoutError') {
+      return { ok: false, error: `Verifier timed out after ${VERIFIER_REQUEST_TIMEOUT_MS}ms` };
+    }
+    return { ok: false, error: String((err as any)?.message ?? err) };
+  }
+}
 
-    const report = (await verifierResponse.json()) as {
-      report: any;
-      milestonesPassed: string[];
-    };
-
-    db.insertVerificationReport({
-      id: report.report.id,
-      submissionId: body.id,
-      createdAt: report.report.producedAt,
-      status: report.report.status,
-      payload: report.report,
+async function fetchVerificationJob(
+  verifierUrl: string,
+  jobId: string
+): Promise<{ ok: true; job: VerificationJob } | { ok: false; error: string; missing: boolean }> {
+  try {
+    const response = await fetch(`${verifierUrl}/jobs/${jobId}`, {
+      signal: AbortSignal.timeout(VERIFIER_REQUEST_TIMEOUT_MS),
     });
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: `Verifier responded ${response.status}: ${await response.text()}`,
+        missing: response.status === 404,
+      };
+    }
+    return { ok: true, job: (await response.json()) as VerificationJob };
+  } catch (err) {
+    return { ok: false, error: String((err as any)?.message ?? err), missing: false };
+  }
+}
 
-    workOrder.verification.verificationReportId = report.report.id;
+// Open verifier log streams by job id, and the last entry relayed from each so a reconnect resumes there.
+const verificationLogRelays = new Map<string, WebSocket>();
+const verificationLogPositions = new Map<string, number>();
+
+// Relays a verifier job's forge output to work-order subscribers as `verificationLog` events. The
+// output is already in the verification report, so these events are not written to the event log.
+function relayVerificationLogs(workOrderId: string, verifierUrl: string, jobId: string) {
+  if (verificationLogRelays.has(jobId)) return;
+  const after = verificationLogPositions.get(jobId) ?? 0;
+  const socket = new WebSocket(`${verifierUrl.replace(/^http/, 'ws')}/jobs/${jobId}/logs?after=${after}`);
+  verificationLogRelays.set(jobId, socket);
+  socket.onmessage = (event) => {
+    try {
+      const message = JSON.parse(String(event.data));
+      if (message?.type === 'end' || message?.type === 'error') verificationLogPositions.delete(jobId);
+      if (message?.type !== 'log') return;
+      const { type: _type, ...entry } = message as { type: string } & VerificationLogEntry;
+      verificationLogPositions.set(jobId, entry.seq);
+      emit(workOrderId, 'verificationLog', { jobId, ...entry }, { persist: false });
+    } catch {
+      // ignore malformed log messages
+    }
+  };
+  socket.onerror = () => {
+    // Followed by onclose; the sweeper reconnects while the job is still running.
+  };
+  socket.onclose = () => {
+    verificationLogRelays.delete(jobId);
+  };
+}
 
-    const selectedQuoteId = workOrder.selection.selectedQuoteId;
-    const selectedQuote = selectedQuoteId
-      ? (db.listQuotes(workOrder.id).map((q) => q.payload as QuotePayload).find((q) => q.id === selectedQuoteId) ?? null)
-      : null;
+// A racer's delivery is judged as that racer's quote; patches always belong to the winner.
+function submissionRacer(workOrder: WorkOrder, solverAddress: string) {
+  if (workOrder.challenge.status === 'PATCH_WINDOW') return undefined;
+  return activeRacers(workOrder).find((entry) => getAddress(entry.solverAddress) === getAddress(solverAddress));
+}
 
-    if (report.report.status === 'PASS') {
-      const patched = workOrder.challenge.status === 'PATCH_WINDOW';
-      workOrder.status = 'PASSED_PENDING_CHALLENGE';
-      workOrder.challenge.status = patched ? 'PATCH_PASSED' : 'OPEN';
-      workOrder.challenge.pendingRewardAmount = null;
-      workOrder.deadlines.patchEndsAt = null;
-      workOrder.deadlines.challengeEndsAt = patched ? Date.now() : Date.now() + CHALLENGE_WINDOW_MS;
-      emit(id, 'verificationPassed', report.report);
-
-      if (selectedQuote) {
-        const stats = getSolverStats(selectedQuote.solverAddress);
-        stats.deliveriesSucceeded += 1;
-        const selectionTime = workOrder.selection.selectedAt ?? workOrder.createdAt;
-        const actualMinutes = Math.max(1, Math.ceil((Date.now() - selectionTime) / 60000));
-        stats.totalEtaMinutes += selectedQuote.etaMinutes;
-        stats.totalActualMinutes += actualMinutes;
-        if (workOrder.deadlines.deliveryEndsAt && Date.now() <= workOrder.deadlines.deliveryEndsAt) {
-          stats.onTimeDeliveries += 1;
-        }
-        saveSolverStats(stats);
-      }
+function dropRacerVerification(workOrder: WorkOrder, racerAttempt: RacerVerification) {
+  workOrder.verification.racers = (workOrder.verification.racers ?? []).filter((entry) => entry !== racerAttempt);
+}
 
-      // Pay milestones in order.
-      const basePrice = selectedQuote ? Number(selectedQuote.price) : Number(workOrder.bounty.amount);
-      for (const milestone of workOrder.milestones.payoutSchedule) {
-        if (!report.milestonesPassed.includes(milestone.key)) continue;
-        const targetAmount = ((basePrice * milestone.percent) / 100).toFixed(4);
-        const targetUnits = toUnits(targetAmount, YELLOW_ASSET.decimals);
-        const alreadyPaidUnits = totalPaidForMilestone(workOrder.id, milestone.key, body.solverAddress);
-        if (alreadyPaidUnits >= targetUnits) continue;
-
-        const remainingUnits = targetUnits - alreadyPaidUnits;
-        const splitCount = milestone.key === 'M5_NO_CHALLENGE_OR_PATCH_OK' ? 1 : MILESTONE_SPLITS;
-        for (const partUnits of splitUnits(remainingUnits, splitCount)) {
-          const paymentEvent: PaymentEvent = {
-            id: randomUUID(),
-            workOrderId: workOrder.id,
-            type: 'MILESTONE',
-            toAddress: body.solverAddress,
-            amount: fromUnits(partUnits, YELLOW_ASSET.decimals),
-            yellowTransferId: null,
-            milestoneKey: milestone.key,
-            createdAt: Date.now(),
-          };
-          await recordPayment(workOrder, paymentEvent);
-          emit(workOrder.id, 'milestonePaid', paymentEvent);
-        }
-      }
-    } else {
-      emit(id, 'verificationFailed', report.report);
-      if (workOrder.challenge.status === 'PATCH_WINDOW') {
-        await finalizeChallengeFailure(workOrder);
-        return { status: 200, body: { workOrder, report: report.report } };
-      }
+// Leaves the attempt for the sweeper to retry; the solver is not penalised. A racer whose delivery
+// could not be verified stays in the race and may deliver again.
+function failVerificationAttempt(
+  workOrder: WorkOrder,
+  error: string,
+  racerAttempt?: RacerVerification
+): { status: number; body: unknown } {
+  const attempt = racerAttempt ?? workOrder.verification;
+  attempt.lastError = error;
+  attempt.jobs = [];
+  if ((attempt.attempts ?? 0) >= MAX_VERIFY_ATTEMPTS) {
+    if (racerAttempt) dropRacerVerification(workOrder, racerAttempt);
+    else transition(workOrder, 'FAILED', 'verifier', 'verifier_unavailable');
+    persistWorkOrder(workOrder);
+    emit(workOrder.id, 'verificationFailed', { error, infrastructure: true, quoteId: racerAttempt?.quoteId });
+    return { status: 502, body: { error: 'Verifier unavailable', details: error } };
+  }
+  attempt.retryAt = Date.now() + VERIFY_RETRY_DELAY_MS;
+  persistWorkOrder(workOrder);
+  emit(workOrder.id, 'verificationRetryScheduled', {
+    error,
+    attempts: attempt.attempts,
+    retryAt: attempt.retryAt,
+    quoteId: racerAttempt?.quoteId,
+  });
+  return {
+    status: 202,
+    body: { workOrder, error: 'Verifier unavailable; verification will be retried', details: error },
+  };
+}
 
-      if (selectedQuote) {
-        const stats = getSolverStats(selectedQuote.solverAddress);
-        stats.deliveriesFailed += 1;
-        saveSolverStats(stats);
-      }
+// Starts one verification attempt, for a VERIFYING work order or for one racer's delivery, by queueing
+// a job on every verifier. The verdict is applied once the jobs finish (see refreshVerification).
+async function startVerification(
+  workOrder: WorkOrder,
+  submission: SubmissionPayload,
+  racerAttempt?: RacerVerification
+): Promise<{ status: number; body: unknown }> {
+  const attempt = racerAttempt ?? workOrder.verification;
+  if (attempt.submissionId !== submission.id) attempt.attempts = 0;
+  attempt.submissionId = submission.id;
+  attempt.attempts = (attempt.attempts ?? 0) + 1;
+  attempt.retryAt = null;
+  attempt.jobs = [];
+  attempt.stage = null;
+  const verifyEndsAt = Date.now() + workOrder.windows.verifyMs;
+  if (racerAttempt) racerAttempt.verifyEndsAt = verifyEndsAt;
+  else workOrder.deadlines.verifyEndsAt = verifyEndsAt;
+  persistWorkOrder(workOrder);
+
+  const queued = await Promise.all(
+    VERIFIERS.urls.map((verifierUrl) => enqueueVerificationJob(verifierUrl, workOrder, submission))
+  );
+  const jobs: VerifierJobRef[] = queued.map((entry, index) => ({
+    verifierUrl: VERIFIERS.urls[index],
+    jobId: entry.ok ? entry.job.id : null,
+    error: entry.ok ? null : entry.error,
+  }));
+  // Too few queued jobs can never reach the quorum; any that were queued are left to finish unread.
+  if (jobs.filter((job) => job.jobId).length < VERIFIERS.quorum) {
+    return failVerificationAttempt(
+      workOrder,
+      jobs.flatMap((job) => (job.error ? [`${job.verifierUrl}: ${job.error}`] : [])).join('; '),
+      racerAttempt
+    );
+  }
+
+  attempt.jobs = jobs;
+  persistWorkOrder(workOrder);
+  emit(workOrder.id, 'verificationQueued', { jobs, attempt: attempt.attempts, quoteId: racerAttempt?.quoteId });
+  const primary = jobs.find((job) => job.jobId);
+  if (primary?.jobId) relayVerificationLogs(workOrder.id, primary.verifierUrl, primary.jobId);
+  return { status: 202, body: { workOrder, jobs } };
+}
+
+// Pays the milestones in `milestonesPassed` that are not fully paid to the solver yet, in schedule order.
+// Streamed payments (made while verification is still running) stop short of the session allowance,
+// since a later fallback solver is paid from the same allocation; final payouts are capped by it.
+async function payMilestones(
+  workOrder: WorkOrder,
+  solverAddress: string,
+  basePrice: number,
+  milestonesPassed: string[],
+  options: { streamed?: boolean } = {}
+) {
+  for (const milestone of workOrder.milestones.payoutSchedule) {
+    if (!milestonesPassed.includes(milestone.key)) continue;
+    const targetAmount = ((basePrice * milestone.percent) / 100).toFixed(4);
+    const targetUnits = toUnits(targetAmount, YELLOW_ASSET.decimals);
+    const alreadyPaidUnits = totalPaidForMilestone(workOrder.id, milestone.key, solverAddress);
+    if (alreadyPaidUnits >= targetUnits) continue;
+
+    const remainingUnits = targetUnits - alreadyPaidUnits;
+    if (options.streamed && workOrder.yellow.allowanceTotal && remainingUnits > unspentAllowanceUnits(workOrder)) return;
+    const payableUnits = allowanceCapUnits(workOrder, remainingUnits);
+    if (payableUnits < remainingUnits) {
+      emit(workOrder.id, 'milestonePaymentCapped', {
+        milestoneKey: milestone.key,
+        toAddress: solverAddress,
+        owed: fromUnits(remainingUnits, YELLOW_ASSET.decimals),
+        paid: fromUnits(payableUnits, YELLOW_ASSET.decimals),
+      });
+    }
+    if (payableUnits === 0n) return;
+    const splitCount = milestone.key === HOLDBACK_MILESTONE_KEY ? 1 : MILESTONE_SPLITS;
+    for (const partUnits of splitUnits(payableUnits, splitCount)) {
+      const paymentEvent: PaymentEvent = {
+        id: randomUUID(),
+        workOrderId: workOrder.id,
+        type: 'MILESTONE',
+        toAddress: solverAddress,
+        amount: fromUnits(partUnits, YELLOW_ASSET.decimals),
+        yellowTransferId: null,
+        milestoneKey: milestone.key,
+        createdAt: Date.now(),
+      };
+      await recordPayment(workOrder, paymentEvent);
+      emit(workOrder.id, 'milestonePaid', paymentEvent);
+    }
+  }
+}
+
+// Racers are only paid once one of them wins, so their milestones are not streamed. Other solvers are
+// paid for each milestone as soon as a quorum of verifiers has attested it.
+async function streamMilestones(workOrder: WorkOrder, submission: SubmissionPayload, jobs: VerificationJob[]) {
+  if (submissionRacer(workOrder, submission.solverAddress)) return;
+  const attestedBySigner = new Map<string, string[]>();
+  for (const job of jobs) {
+    if (!job.attestation) continue;
+    const check = checkAttestation(job.attestation, { verifierAddresses: VERIFIER_ADDRESSES, workOrder, submission });
+    if (!check.ok) {
+      server.log.warn({ workOrderId: workOrder.id, jobId: job.id }, `not counting streamed milestones: ${check.error}`);
+      continue;
+    }
+    if (!attestedBySigner.has(check.signer)) attestedBySigner.set(check.signer, job.attestation.message.milestones);
+  }
+  const milestones = quorumMilestones([...attestedBySigner.values()], VERIFIERS.quorum);
+  if (milestones.length === 0) return;
+  const selectedQuoteId = workOrder.selection.selectedQuoteId;
+  const selectedQuote = selectedQuoteId ? (db.getQuote(selectedQuoteId)?.payload as QuotePayload | undefined) : undefined;
+  const basePrice = selectedQuote ? Number(selectedQuote.price) : Number(workOrder.bounty.amount);
+  await payMilestones(workOrder, submission.solverAddress, basePrice, milestones, { streamed: true });
+}
+
+type PolledVerifierJob = {
+  ref: VerifierJobRef;
+  fetched: Awaited<ReturnType<typeof fetchVerificationJob>> | null;
+};
+
+function isJobPending(polled: PolledVerifierJob) {
+  const { fetched } = polled;
+  if (!fetched) return false;
+  // An unreachable verifier may still be running the job; only a missing job is final.
+  if (!fetched.ok) return !fetched.missing;
+  return fetched.job.status === 'QUEUED' || fetched.job.status === 'RUNNING';
+}
+
+function verifierResult(workOrder: WorkOrder, submission: SubmissionPayload, polled: PolledVerifierJob): VerifierResult {
+  const { ref, fetched } = polled;
+  const base = {
+    verifierUrl: ref.verifierUrl,
+    jobId: ref.jobId,
+    reportId: null,
+    signer: null,
+    milestones: [],
+    attestation: null,
+    failure: null,
+  };
+  const failed = (error: string): VerifierResult => ({ ...base, status: 'ERROR', error });
+  if (!fetched) return failed(ref.error ?? 'Job was not queued');
+  if (!fetched.ok) return failed(fetched.error);
+  const { job } = fetched;
+  if (job.status === 'QUEUED' || job.status === 'RUNNING') {
+    return failed(`Job did not finish within ${workOrder.windows.verifyMs}ms`);
+  }
+  if (job.status === 'FAILED' || !job.result) return failed(job.error ?? 'Verifier job failed');
+
+  const { report } = job.result;
+  const check = checkReportAttestation(report, { verifierAddresses: VERIFIER_ADDRESSES, workOrder, submission });
+  if (!check.ok || !report.attestation) {
+    return { ...failed(`Rejected report: ${check.ok ? 'not signed' : check.error}`), reportId: report.id };
+  }
+  // A run that broke on the verifier's side is no verdict on the hook; without a quorum it is retried.
+  if (report.status === 'FAIL' && report.failure?.blame === 'infrastructure') {
+    const { failure } = report;
+    return { ...failed(`${failure.code}: ${failure.message}`), reportId: report.id, signer: check.signer, failure };
+  }
+  return {
+    ...base,
+    status: report.status,
+    reportId: report.id,
+    signer: check.signer,
+    milestones: report.attestation.message.milestones,
+    attestation: report.attestation,
+    failure: report.failure ?? null,
+    error: null,
+  };
+}
+
+function recordDispute(dispute: VerificationDispute) {
+  db.insertVerificationDispute({
+    id: dispute.id,
+    workOrderId: dispute.workOrderId,
+    createdAt: dispute.createdAt,
+    kind: dispute.kind,
+    payload: dispute,
+  });
+  emit(dispute.workOrderId, 'verificationDisputed', dispute);
+}
+
+// Polls every job of the current attempt. Milestones stream as soon as a quorum attests them, but the
+// verdict waits until every job has finished (or the verify deadline passes) so that a verifier that
+// disagrees is recorded in a dispute.
+async function applyVerificationJobs(workOrder: WorkOrder, racerAttempt?: RacerVerification) {
+  const attempt = racerAttempt ?? workOrder.verification;
+  const refs = attempt.jobs ?? [];
+  const polled: PolledVerifierJob[] = await Promise.all(
+    refs.map(async (ref) => ({ ref, fetched: ref.jobId ? await fetchVerificationJob(ref.verifierUrl, ref.jobId) : null }))
+  );
+  const submissionId = attempt.submissionId ?? '';
+  const submission = db.getSubmission(submissionId)?.payload as SubmissionPayload | undefined;
+  if (!submission) {
+    failVerificationAttempt(workOrder, `Submission ${submissionId} not found`, racerAttempt);
+    return;
+  }
+  const jobs = polled.flatMap(({ fetched }) => (fetched?.ok ? [fetched.job] : []));
+  await streamMilestones(workOrder, submission, jobs);
+
+  const endsAt = racerAttempt ? racerAttempt.verifyEndsAt : workOrder.deadlines.verifyEndsAt;
+  const overdue = endsAt !== null && Date.now() > endsAt;
+  if (polled.some(isJobPending) && !overdue) {
+    // Logs and progress follow the first verifier whose job is still running.
+    const running = polled.find((entry) => isJobPending(entry) && entry.fetched?.ok);
+    const job = running?.fetched?.ok ? running.fetched.job : null;
+    if (!running || !job) return;
+    relayVerificationLogs(workOrder.id, running.ref.verifierUrl, job.id);
+    if (job.stage !== (attempt.stage ?? null)) {
+      attempt.stage = job.stage;
+      persistWorkOrder(workOrder);
+      emit(workOrder.id, 'verificationProgress', {
+        jobId: job.id,
+        status: job.status,
+        stage: job.stage,
+        quoteId: racerAttempt?.quoteId,
+      });
+    }
+    return;
+  }
+
+  const results = dedupeSigners(polled.map((entry) => verifierResult(workOrder, submission, entry)));
+  const counted = results.filter((result) => result.status !== 'ERROR');
+  const verdict = quorumOutcome(counted.map((result) => result.status as 'PASS' | 'FAIL'), VERIFIERS.quorum);
+  if (verificationDisagreement(results)) {
+    recordDispute({
+      id: randomUUID(),
+      workOrderId: workOrder.id,
+      submissionId: submission.id,
+      quorum: VERIFIERS.quorum,
+      createdAt: Date.now(),
+      kind: 'VERIFICATION',
+      resolution: verdict,
+      results,
+    });
+  }
+  // A failure is only put down to the spec, or retried, when a quorum of the failing verifiers say so.
+  const failVotes = counted.filter((result) => result.status === 'FAIL');
+  const specAgreed = failVotes.filter((result) => result.failure?.blame === 'spec').length >= VERIFIERS.quorum;
+  const retryableAgreed = failVotes.filter((result) => result.failure?.retryable).length >= VERIFIERS.quorum;
+  const agreeing = verdict
+    ? counted.find((result) => result.status === verdict &&
+        (verdict === 'PASS' || (result.failure?.blame === 'spec') === specAgreed))
+    : undefined;
+  const report = jobs.find((job) => job.result?.report.id === agreeing?.reportId)?.result?.report;
+  if (!verdict || !report) {
+    const summary = results.map((result) => `${result.verifierUrl}: ${result.status}${result.error ? ` (${result.error})` : ''}`);
+    failVerificationAttempt(
+      workOrder,
+      `No verifier quorum (${VERIFIERS.quorum} of ${refs.length}): ${summary.join('; ')}`,
+      racerAttempt
+    );
+    return;
+  }
+  // A solver failure that another run may not hit (a timeout, an unreachable repo) is retried without
+  // penalty while attempts remain; the verdict of the last attempt stands.
+  if (verdict === 'FAIL' && !specAgreed && retryableAgreed && (attempt.attempts ?? 0) < MAX_VERIFY_ATTEMPTS) {
+    const failure = report.failure;
+    failVerificationAttempt(
+      workOrder,
+      `Retryable failure${failure ? ` (${failure.code}: ${failure.message})` : ''}`,
+      racerAttempt
+    );
+    return;
+  }
+
+  await applyVerificationResult(
+    workOrder,
+    submission,
+    {
+      report: { ...report, verifierResults: results, quorum: VERIFIERS.quorum },
+      milestonesPassed: quorumMilestones(counted.map((result) => result.milestones), VERIFIERS.quorum),
+    },
+    racerAttempt
+  );
+}
+
+async function applyVerificationResult(
+  workOrder: WorkOrder,
+  submission: SubmissionPayload,
+  report: VerificationResult,
+  racer: RacerVerification | undefined
+) {
+  if (racer) {
+    dropRacerVerification(workOrder, racer);
+  } else {
+    workOrder.verification.jobs = [];
+    workOrder.verification.lastError = null;
+  }
+
+  db.insertVerificationReport({
+    id: report.report.id,
+    submissionId: submission.id,
+    createdAt: report.report.producedAt,
+    status: report.report.status,
+    payload: report.report,
+  });
+
+  workOrder.verification.verificationReportId = report.report.id;
+
+  const selectedQuoteId = racer?.quoteId ?? workOrder.selection.selectedQuoteId;
+  const selectedQuote = selectedQuoteId
+    ? (db.listQuotes(workOrder.id).map((q) => q.payload as QuotePayload).find((q) => q.id === selectedQuoteId) ?? null)
+    : null;
+
+  if (report.report.status === 'PASS') {
+    if (racer) {
+      // The other racers' deliveries are no longer needed; their jobs are left to finish unread.
+      workOrder.verification.racers = [];
+      workOrder.verification.submissionId = submission.id;
+      workOrder.selection.selectedQuoteId = racer.quoteId;
+      workOrder.selection.selectedSolverId = racer.solverAddress;
+      emit(workOrder.id, 'raceWon', { quoteId: racer.quoteId, solverAddress: racer.solverAddress });
+    }
+    const patched = workOrder.challenge.status === 'PATCH_WINDOW';
+    transition(workOrder, 'PASSED_PENDING_CHALLENGE', 'verifier', patched ? 'patch_verification_passed' : 'verification_passed');
+    workOrder.challenge.status = patched ? 'PATCH_PASSED' : 'OPEN';
+    workOrder.challenge.pendingRewardAmount = null;
+    workOrder.deadlines.patchEndsAt = null;
+    workOrder.deadlines.challengeEndsAt = patched ? Date.now() : Date.now() + workOrder.windows.challengeMs;
+    emit(workOrder.id, 'verificationPassed', report.report);
 
-      const attempted = workOrder.selection.attemptedQuoteIds ?? [];
-      if (selectedQuoteId && !attempted.includes(selectedQuoteId)) {
-        attempted.push(selectedQuoteId);
-        workOrder.selection.attemptedQuoteIds = attempted;
+    if (selectedQuote) {
+      const stats = getSolverStats(selectedQuote.solverAddress);
+      stats.deliveriesSucceeded += 1;
+      const selectionTime = workOrder.selection.selectedAt ?? workOrder.createdAt;
+      const actualMinutes = Math.max(1, Math.ceil((Date.now() - selectionTime) / 60000));
+      stats.totalEtaMinutes += selectedQuote.etaMinutes;
+      stats.totalActualMinutes += actualMinutes;
+      if (workOrder.deadlines.deliveryEndsAt && Date.now() <= workOrder.deadlines.deliveryEndsAt) {
+        stats.onTimeDeliveries += 1;
       }
+      saveSolverStats(stats);
+    }
 
-      const quotes = db.listQuotes(workOrder.id).map((q) => q.payload as QuotePayload);
-      try {
-        const session = await ensureYellowSession(workOrder, quotes);
-        emit(workOrder.id, 'yellowSessionCreated', session);
-      } catch (error) {
-        server.log.error(error, 'failed to ensure Yellow session for fallback selection');
+    const basePrice = selectedQuote ? Number(selectedQuote.price) : Number(workOrder.bounty.amount);
+    await payMilestones(workOrder, submission.solverAddress, basePrice, report.milestonesPassed);
+
+    if (racer && workOrder.race && Number(workOrder.race.consolationAmount) > 0) {
+      for (const loser of activeRacers(workOrder)) {
+        if (loser.quoteId === racer.quoteId) continue;
+        if (hasPaymentEvent(workOrder.id, (evt) => evt.type === 'CONSOLATION' &&
+            evt.toAddress.toLowerCase() === loser.solverAddress.toLowerCase())) continue;
+        const consolationUnits = toUnits(workOrder.race.consolationAmount, YELLOW_ASSET.decimals);
+        if (allowanceCapUnits(workOrder, consolationUnits) < consolationUnits) break;
+        const paymentEvent: PaymentEvent = {
+          id: randomUUID(),
+          workOrderId: workOrder.id,
+          type: 'CONSOLATION',
+          toAddress: loser.solverAddress,
+          amount: workOrder.race.consolationAmount,
+          yellowTransferId: null,
+          createdAt: Date.now(),
+        };
+        await recordPayment(workOrder, paymentEvent);
+        emit(workOrder.id, 'consolationPaid', paymentEvent);
       }
+    }
+  } else {
+    emit(workOrder.id, 'verificationFailed', report.report);
+    if (workOrder.challenge.status === 'PATCH_WINDOW') {
+      await finalizeChallengeFailure(workOrder, 'verifier', 'patch_verification_failed');
+      return;
+    }
+
+    // No delivery can pass a work order its own spec breaks, so nobody is penalised or falls back.
+    if (report.report.failure?.blame === 'spec') {
+      workOrder.verification.racers = [];
+      transition(workOrder, 'FAILED', 'verifier', 'verification_spec_failed');
+      persistWorkOrder(workOrder);
+      return;
+    }
+
+    if (selectedQuote) {
+      const stats = getSolverStats(selectedQuote.solverAddress);
+      stats.deliveriesFailed += 1;
+      saveSolverStats(stats);
+    }
+
+    const attempted = workOrder.selection.attemptedQuoteIds ?? [];
+    if (selectedQuoteId && !attempted.includes(selectedQuoteId)) {
+      attempted.push(selectedQuoteId);
+      workOrder.selection.attemptedQuoteIds = attempted;
+    }
+
+    // Other racers keep their delivery window; only a race with nobody left falls back.
+    if (racer && activeRacers(workOrder).length > 0) {
+      persistWorkOrder(workOrder);
+      return;
+    }
 
-      const allowedSolvers = new Set(
-        (workOrder.yellow.participants ?? []).slice(1).map((participant) => participant.toLowerCase())
+    const quotes = listActiveQuotes(workOrder.id);
+    try {
+      const session = await ensureYellowSession(workOrder, quotes);
+      emit(workOrder.id, 'yellowSessionCreated', session);
+    } catch (error) {
+      server.log.error(error, 'failed to ensure Yellow session for fallback selection');
+    }
+
+    const allowedSolvers = new Set(
+      (workOrder.yellow.participants ?? []).slice(1).map((participant) => participant.toLowerCase())
+    );
+    const eligibleQuotes = allowedSolvers.size > 0
+      ? quotes.filter((quote) => allowedSolvers.has(quote.solverAddress.toLowerCase()))
+      : quotes;
+
+    const fallbackQuote = selectNextQuote(workOrder, eligibleQuotes, attempted);
+    if (fallbackQuote) {
+      applySelection(
+        workOrder,
+        fallbackQuote,
+        'verifier',
+        'fallback_after_failed_verification',
+        pickRacers(workOrder, fallbackQuote, eligibleQuotes)
       );
-      const eligibleQuotes = allowedSolvers.size > 0
-        ? quotes.filter((quote) => allowedSolvers.has(quote.solverAddress.toLowerCase()))
-        : quotes;
-
-      const fallbackQuote = selectNextQuote(eligibleQuotes, attempted);
-      if (fallbackQuote) {
-        applySelection(workOrder, fallbackQuote);
-        emit(workOrder.id, 'solverFallbackSelected', { quote: fallbackQuote });
-      } else {
-        workOrder.status = 'FAILED';
+      emit(workOrder.id, 'solverFallbackSelected', { quote: fallbackQuote });
+    } else {
+      transition(workOrder, 'FAILED', 'verifier', 'verification_failed_no_fallback');
+    }
+  }
+
+
+  persistWorkOrder(workOrder);
+}
+
+server.post('/work-orders/:id/submit', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const body = request.body as SubmissionPayload;
+
+  if (body.workOrderId !== id) {
+    return reply.status(400).send({ error: 'Work order ID mismatch' });
+  }
+
+  const result = await queueWorkOrder(id, async () => {
+    const record = db.getWorkOrder(id);
+    if (!record) return { status: 404, body: { error: 'Work order not found' } };
+    const workOrder = normalizeWorkOrder(record.payload as WorkOrder);
+
+    if (!canTransition(workOrder, 'VERIFYING', 'solver')) {
+      return { status: 400, body: { error: 'Work order is not ready for submission' } };
+    }
+
+    // While a race is on, any racer still in it may deliver; patches come from the winner only.
+    const racer = workOrder.status === 'SELECTED'
+      ? activeRacers(workOrder).find((entry) => getAddress(entry.solverAddress) === getAddress(body.solverAddress))
+      : undefined;
+    if (workOrder.status === 'SELECTED' && workOrder.selection.racers?.length) {
+      if (!racer) {
+        return { status: 403, body: { error: 'Solver is not racing for this work order' } };
+      }
+      if ((workOrder.verification.racers ?? []).some((entry) => entry.quoteId === racer.quoteId)) {
+        return { status: 409, body: { error: 'Delivery is already under verification' } };
       }
+    } else if (workOrder.selection.selectedSolverId &&
+        getAddress(body.solverAddress) !== getAddress(workOrder.selection.selectedSolverId)) {
+      return { status: 403, body: { error: 'Solver is not selected for this work order' } };
+    }
+
+    const message: SubmissionMessage = {
+      workOrderId: body.workOrderId,
+      repoUrl: body.artifact.repoUrl,
+      commitSha: body.artifact.commitSha,
+      artifactHash: body.artifact.artifactHash,
+    };
+    const recovered = recoverSubmissionSigner(message, body.signature);
+    if (getAddress(recovered) !== getAddress(body.solverAddress)) {
+      return { status: 400, body: { error: 'Invalid submission signature' } };
+    }
+
+    const computedHash = sha256Hex(`${body.artifact.repoUrl}:${body.artifact.commitSha}`);
+    if (computedHash !== body.artifact.artifactHash) {
+      return { status: 400, body: { error: 'Artifact hash mismatch' } };
+    }
+
+    db.insertSubmission({
+      id: body.id,
+      workOrderId: id,
+      createdAt: body.createdAt,
+      payload: body,
+    });
+
+    // Racers are verified side by side; the order stays SELECTED until one of them passes.
+    if (racer) {
+      const racerAttempt: RacerVerification = {
+        quoteId: racer.quoteId,
+        solverAddress: racer.solverAddress,
+        verifyEndsAt: null,
+      };
+      workOrder.verification.racers = [...(workOrder.verification.racers ?? []), racerAttempt];
+      emit(id, 'submissionReceived', body);
+      return await startVerification(workOrder, body, racerAttempt);
     }
 
+    transition(
+      workOrder,
+      'VERIFYING',
+      'solver',
+      workOrder.status === 'CHALLENGED' ? 'patch_submission_received' : 'submission_received'
+    );
     persistWorkOrder(workOrder);
-    return { status: 200, body: { workOrder, report: report.report } };
+
+    emit(id, 'submissionReceived', body);
+
+    return await startVerification(workOrder, body);
   });
 
   return reply.status(result.status).send(result.body);
@@ -1011,11 +2077,20 @@ server.post('/work-orders/:id/submit', async (request, reply) => {
 server.post('/work-orders/:id/end-session', async (request, reply) => {
   const { id } = request.params as { id: string };
   const { force } = (request.query as { force?: string }) ?? {};
+  const body = request.body as { signature?: string; issuedAt?: number; revision?: number } | undefined;
   const result = await queueWorkOrder(id, async () => {
     const record = db.getWorkOrder(id);
     if (!record) return { status: 404, body: { error: 'Work order not found' } };
     const workOrder = normalizeWorkOrder(record.payload as WorkOrder);
 
+    const authError = requesterSignatureError(workOrder, body ?? {}, (signature, issuedAt, revision) => {
+      const message: EndSessionMessage = { workOrderId: id, force: force === 'true', revision, issuedAt };
+      return recoverEndSessionSigner(message, signature);
+    });
+    if (authError) {
+      return { status: 403, body: { error: authError } };
+    }
+
     if (workOrder.status !== 'PASSED_PENDING_CHALLENGE') {
       return { status: 400, body: { error: 'Work order is not ready to settle' } };
     }
@@ -1027,7 +2102,7 @@ server.post('/work-orders/:id/end-session', async (request, reply) => {
       return { status: 400, body: { error: 'Challenge window still open. Use ?force=true to settle early.' } };
     }
 
-    const settlement = await settleWorkOrder(workOrder);
+    const settlement = await settleWorkOrder(workOrder, 'requester');
     if (!settlement) {
       return { status: 400, body: { error: 'Unable to settle work order' } };
     }
@@ -1038,6 +2113,92 @@ server.post('/work-orders/:id/end-session', async (request, reply) => {
   return reply.status(result.status).send(result.body);
 });
 
+server.post('/work-orders/:id/cancel', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const body = request.body as { signature?: string; issuedAt?: number; revision?: number } | undefined;
+  const result = await queueWorkOrder(id, async () => {
+    const record = db.getWorkOrder(id);
+    if (!record) return { status: 404, body: { error: 'Work order not found' } };
+    const workOrder = normalizeWorkOrder(record.payload as WorkOrder);
+
+    const authError = requesterSignatureError(workOrder, body ?? {}, (signature, issuedAt, revision) => {
+      const message: CancelWorkOrderMessage = { workOrderId: id, revision, issuedAt };
+      return recoverCancelWorkOrderSigner(message, signature);
+    });
+    if (authError) {
+      return { status: 403, body: { error: authError } };
+    }
+
+    if (!canTransition(workOrder, 'CANCELLED', 'requester')) {
+      return { status: 400, body: { error: 'Work order cannot be cancelled in the current state' } };
+    }
+
+    const selectedQuoteId = workOrder.selection.selectedQuoteId;
+    const selectedQuote = selectedQuoteId
+      ? (db.listQuotes(workOrder.id).map((q) => q.payload as QuotePayload).find((q) => q.id === selectedQuoteId) ?? null)
+      : null;
+
+    let settlement: Awaited<ReturnType<YellowClient['closeSession']>> | null = null;
+    const sessionState = buildSessionState(workOrder);
+    if (sessionState) {
+      try {
+        const solver = workOrder.selection.selectedSolverId;
+        const alreadyPaidKillFee = hasPaymentEvent(workOrder.id, (evt) => evt.type === 'KILL_FEE');
+        const unspentUnits = unspentAllowanceUnits(workOrder);
+        const killFeeUnits = computeKillFee(workOrder, selectedQuote, Date.now());
+        const payableKillFee = killFeeUnits < unspentUnits ? killFeeUnits : unspentUnits;
+        if (solver && !alreadyPaidKillFee && payableKillFee > 0n) {
+          const paymentEvent: PaymentEvent = {
+            id: randomUUID(),
+            workOrderId: workOrder.id,
+            type: 'KILL_FEE',
+            toAddress: solver,
+            amount: fromUnits(payableKillFee, YELLOW_ASSET.decimals),
+            yellowTransferId: null,
+            createdAt: Date.now(),
+          };
+          await recordPayment(workOrder, paymentEvent);
+          emit(workOrder.id, 'killFeePaid', paymentEvent);
+        }
+
+        const refundUnits = unspentAllowanceUnits(workOrder);
+        const payer = sessionState.participants[0];
+        if (payer && refundUnits > 0n) {
+          const paymentEvent: PaymentEvent = {
+            id: randomUUID(),
+            workOrderId: workOrder.id,
+            type: 'REFUND',
+            toAddress: payer,
+            amount: fromUnits(refundUnits, YELLOW_ASSET.decimals),
+            yellowTransferId: null,
+            createdAt: Date.now(),
+          };
+          await recordPayment(workOrder, paymentEvent);
+          emit(workOrder.id, 'refundPaid', paymentEvent);
+        }
+
+        const latestSession = buildSessionState(workOrder) ?? sessionState;
+        settlement = await yellowClientForWorkOrder(workOrder).closeSession({ workOrderId: workOrder.id, sessionState: latestSession });
+        workOrder.yellow.settlementTxId = settlement.settlementTxId;
+      } catch (error) {
+        server.log.error(error, 'failed to refund/close Yellow session on cancel');
+        const details = process.env.V4SHM_DEMO_ACTIONS === 'true'
+          ? String((error as any)?.message ?? error)
+          : undefined;
+        return { status: 500, body: { error: 'Failed to refund Yellow session', details } };
+      }
+    }
+
+    transition(workOrder, 'CANCELLED', 'requester', 'requester_cancelled');
+    persistWorkOrder(workOrder);
+    emit(workOrder.id, 'workOrderCancelled', { settlement });
+
+    return { status: 200, body: { workOrder, settlement } };
+  });
+
+  return reply.status(result.status).send(result.body);
+});
+
 server.get('/work-orders/:id/payments', async (request, reply) => {
   const { id } = request.params as { id: string };
   const record = db.getWorkOrder(id);
@@ -1049,7 +2210,7 @@ server.get('/work-orders/:id/payments', async (request, reply) => {
 server.get('/solvers', async () => {
   const rows = db.listSolverStats();
   return rows.map((row) => {
-    const stats = row.payload as SolverStats;
+    const stats = storedSolverStats(row);
     return { stats, reputation: calculateReputation(stats) };
   });
 });
@@ -1060,7 +2221,7 @@ server.get('/solvers/:address', async (request, reply) => {
     const checksummed = getAddress(address);
     const record = db.getSolverStats(checksummed.toLowerCase());
     if (!record) return reply.status(404).send({ error: 'Solver not found' });
-    const stats = record.payload as SolverStats;
+    const stats = storedSolverStats(record);
     return { stats, reputation: calculateReputation(stats) };
   } catch {
     return reply.status(400).send({ error: 'Invalid address' });
@@ -1075,47 +2236,259 @@ server.get('/solver/work-orders', async (request) => {
 
 server.post('/solver/quotes', async (request, reply) => {
   const body = request.body as QuotePayload;
+  const result = await queueWorkOrder(body.workOrderId, async () => {
+    const record = db.getWorkOrder(body.workOrderId);
+    if (!record) return { status: 404, body: { error: 'Work order not found' } };
+    const workOrder = normalizeWorkOrder(record.payload as WorkOrder);
+
+    // Sealed-bid orders only take quotes as reveals of an earlier commitment.
+    const sealed = workOrder.bidding.mode === 'SEALED';
+    if (sealed && workOrder.status === 'BIDDING') {
+      return {
+        status: 400,
+        body: {
+          error: 'Sealed-bid work order: post a commitment to /solver/quote-commitments and reveal after bidding closes',
+        },
+      };
+    }
+    if (workOrder.bidding.mode === 'DUTCH') {
+      return {
+        status: 400,
+        body: { error: `Dutch auction work order: accept the current price via /work-orders/${workOrder.id}/accept` },
+      };
+    }
+    if (workOrder.status !== (sealed ? 'REVEAL' : 'BIDDING')) {
+      return { status: 400, body: { error: 'Work order is not accepting quotes' } };
+    }
+
+    if (!sealed && Date.now() > workOrder.bidding.biddingEndsAt) {
+      return { status: 400, body: { error: 'Bidding window closed' } };
+    }
+    if (sealed && Date.now() > (workOrder.bidding.revealEndsAt ?? 0)) {
+      return { status: 400, body: { error: 'Reveal window closed' } };
+    }
+    const termsError = quoteTermsError(workOrder, body);
+    if (termsError) return { status: 400, body: { error: termsError } };
+
+    const message: QuoteMessage = {
+      workOrderId: body.workOrderId,
+      price: body.price,
+      etaMinutes: body.etaMinutes,
+      validUntil: body.validUntil,
+    };
+    const recovered = recoverQuoteSigner(message, body.signature);
+    if (getAddress(recovered) !== getAddress(body.solverAddress)) {
+      return { status: 400, body: { error: 'Invalid quote signature' } };
+    }
+
+    const solver = body.solverAddress.toLowerCase();
+    const solverQuotes = db
+      .listQuotes(body.workOrderId)
+      .map((q) => q.payload as QuotePayload)
+      .filter((q) => q.solverAddress.toLowerCase() === solver);
+    const quote: QuotePayload = { ...body, status: 'ACTIVE', revision: 0, updatedAt: body.createdAt };
+    if (sealed) {
+      const commitment = db
+        .listQuoteCommitments(body.workOrderId)
+        .map((c) => c.payload as QuoteCommitmentPayload)
+        .find((c) => c.solverAddress.toLowerCase() === solver);
+      if (!commitment) {
+        return { status: 400, body: { error: 'No quote commitment from this solver' } };
+      }
+      if (solverQuotes.length > 0) {
+        return { status: 409, body: { error: 'Quote already revealed' } };
+      }
+      if (typeof body.salt !== 'string' || quoteCommitmentHash({ ...body, salt: body.salt }) !== commitment.commitmentHash) {
+        return { status: 400, body: { error: 'Quote does not match commitment' } };
+      }
+      quote.commitmentId = commitment.id;
+    } else if (solverQuotes.some(isActiveQuote)) {
+      return {
+        status: 409,
+        body: { error: 'Solver already has an active quote; revise it with PUT /solver/quotes/:id' },
+      };
+    }
+
+    db.insertQuote({
+      id: quote.id,
+      workOrderId: quote.workOrderId,
+      createdAt: quote.createdAt,
+      payload: quote,
+    });
+    recordQuoteHistory(quote, 'CREATED');
+
+    const quoteStats = getSolverStats(quote.solverAddress);
+    quoteStats.quotesSubmitted += 1;
+    saveSolverStats(quoteStats);
+
+    emit(quote.workOrderId, 'quoteCreated', quote);
+
+    return { status: 201, body: quote };
+  });
+
+  return reply.status(result.status).send(result.body);
+});
+
+// Revisions and withdrawals are open-bidding only: a sealed-bid quote is bound to its commitment.
+function revisableQuote(quoteId: string):
+  | { ok: true; workOrder: WorkOrder; quote: QuotePayload }
+  | { ok: false; status: number; error: string } {
+  const quoteRecord = db.getQuote(quoteId);
+  if (!quoteRecord) return { ok: false, status: 404, error: 'Quote not found' };
+  const quote = quoteRecord.payload as QuotePayload;
+  const workOrder = requireWorkOrder(quote.workOrderId);
+  if (!workOrder) return { ok: false, status: 404, error: 'Work order not found' };
+  if (workOrder.bidding.mode === 'SEALED') {
+    return { ok: false, status: 400, error: 'Sealed-bid quotes cannot be revised or withdrawn' };
+  }
+  if (workOrder.status !== 'BIDDING' || Date.now() > workOrder.bidding.biddingEndsAt) {
+    return { ok: false, status: 400, error: 'Bidding window closed' };
+  }
+  if (!isActiveQuote(quote)) return { ok: false, status: 409, error: 'Quote already withdrawn' };
+  return { ok: true, workOrder, quote };
+}
+
+server.put('/solver/quotes/:id', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const body = request.body as
+    | (Pick<QuotePayload, 'price' | 'etaMinutes' | 'validUntil' | 'signature'> & { revision: number })
+    | undefined;
+  if (
+    typeof body?.price !== 'string'
+    || typeof body.etaMinutes !== 'number'
+    || typeof body.validUntil !== 'number'
+    || typeof body.revision !== 'number'
+    || typeof body.signature !== 'string'
+  ) {
+    return reply.status(400).send({ error: 'Revision needs price, etaMinutes, validUntil, revision and signature' });
+  }
+  const quoteRecord = db.getQuote(id);
+  if (!quoteRecord) return reply.status(404).send({ error: 'Quote not found' });
+
+  const result = await queueWorkOrder(quoteRecord.workOrderId, async () => {
+    const current = revisableQuote(id);
+    if (!current.ok) return { status: current.status, body: { error: current.error } };
+    const { workOrder, quote } = current;
+
+    const termsError = quoteTermsError(workOrder, body);
+    if (termsError) return { status: 400, body: { error: termsError } };
+
+    const revision = (quote.revision ?? 0) + 1;
+    if (body.revision !== revision) {
+      return { status: 409, body: { error: `Quote is at revision ${revision - 1}; sign revision ${revision}` } };
+    }
+
+    const message: QuoteRevisionMessage = {
+      workOrderId: quote.workOrderId,
+      quoteId: quote.id,
+      revision,
+      price: body.price,
+      etaMinutes: body.etaMinutes,
+      validUntil: body.validUntil,
+    };
+    try {
+      if (getAddress(recoverQuoteRevisionSigner(message, body.signature)) !== getAddress(quote.solverAddress)) {
+        return { status: 403, body: { error: 'Only the quoting solver can revise this quote' } };
+      }
+    } catch {
+      return { status: 400, body: { error: 'Invalid quote signature' } };
+    }
+
+    const revised: QuotePayload = {
+      ...quote,
+      price: body.price,
+      etaMinutes: body.etaMinutes,
+      validUntil: body.validUntil,
+      signature: body.signature,
+      revision,
+      updatedAt: Date.now(),
+    };
+    db.updateQuote({ id: revised.id, workOrderId: revised.workOrderId, createdAt: revised.createdAt, payload: revised });
+    recordQuoteHistory(revised, 'REVISED');
+    emit(revised.workOrderId, 'quoteRevised', revised);
+    return { status: 200, body: revised };
+  });
+
+  return reply.status(result.status).send(result.body);
+});
+
+server.delete('/solver/quotes/:id', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const body = request.body as { signature?: string } | undefined;
+  const quoteRecord = db.getQuote(id);
+  if (!quoteRecord) return reply.status(404).send({ error: 'Quote not found' });
+
+  const result = await queueWorkOrder(quoteRecord.workOrderId, async () => {
+    const current = revisableQuote(id);
+    if (!current.ok) return { status: current.status, body: { error: current.error } };
+    const { quote } = current;
+
+    if (typeof body?.signature !== 'string') {
+      return { status: 400, body: { error: 'Missing withdrawal signature' } };
+    }
+    const message: QuoteWithdrawalMessage = { workOrderId: quote.workOrderId, quoteId: quote.id };
+    try {
+      if (getAddress(recoverQuoteWithdrawalSigner(message, body.signature)) !== getAddress(quote.solverAddress)) {
+        return { status: 403, body: { error: 'Only the quoting solver can withdraw this quote' } };
+      }
+    } catch {
+      return { status: 400, body: { error: 'Invalid withdrawal signature' } };
+    }
+
+    const withdrawn: QuotePayload = { ...quote, status: 'WITHDRAWN', updatedAt: Date.now() };
+    db.updateQuote({ id: withdrawn.id, workOrderId: withdrawn.workOrderId, createdAt: withdrawn.createdAt, payload: withdrawn });
+    recordQuoteHistory(withdrawn, 'WITHDRAWN');
+    emit(withdrawn.workOrderId, 'quoteWithdrawn', withdrawn);
+    return { status: 200, body: withdrawn };
+  });
+
+  return reply.status(result.status).send(result.body);
+});
+
+server.post('/solver/quote-commitments', async (request, reply) => {
+  const body = request.body as QuoteCommitmentPayload;
   const record = db.getWorkOrder(body.workOrderId);
   if (!record) return reply.status(404).send({ error: 'Work order not found' });
   const workOrder = normalizeWorkOrder(record.payload as WorkOrder);
 
+  if (workOrder.bidding.mode !== 'SEALED') {
+    return reply.status(400).send({ error: 'Work order does not use sealed bids' });
+  }
   if (workOrder.status !== 'BIDDING') {
     return reply.status(400).send({ error: 'Work order is not accepting quotes' });
   }
-
   if (Date.now() > workOrder.bidding.biddingEndsAt) {
     return reply.status(400).send({ error: 'Bidding window closed' });
   }
-  if (body.validUntil < Date.now()) {
-    return reply.status(400).send({ error: 'Quote already expired' });
-  }
-  if (Number(body.price) > Number(workOrder.bounty.amount)) {
-    return reply.status(400).send({ error: 'Quote exceeds bounty amount' });
+  if (typeof body.commitmentHash !== 'string' || !/^0x[0-9a-f]{64}$/.test(body.commitmentHash)) {
+    return reply.status(400).send({ error: 'Invalid commitmentHash' });
   }
 
-  const message: QuoteMessage = {
+  const message: QuoteCommitmentMessage = {
     workOrderId: body.workOrderId,
-    price: body.price,
-    etaMinutes: body.etaMinutes,
-    validUntil: body.validUntil,
+    commitmentHash: body.commitmentHash,
   };
-  const recovered = recoverQuoteSigner(message, body.signature);
+  const recovered = recoverQuoteCommitmentSigner(message, body.signature);
   if (getAddress(recovered) !== getAddress(body.solverAddress)) {
-    return reply.status(400).send({ error: 'Invalid quote signature' });
+    return reply.status(400).send({ error: 'Invalid commitment signature' });
+  }
+
+  const solver = body.solverAddress.toLowerCase();
+  const existing = db
+    .listQuoteCommitments(body.workOrderId)
+    .some((c) => (c.payload as QuoteCommitmentPayload).solverAddress.toLowerCase() === solver);
+  if (existing) {
+    return reply.status(409).send({ error: 'Commitment already submitted' });
   }
 
-  db.insertQuote({
+  db.insertQuoteCommitment({
     id: body.id,
     workOrderId: body.workOrderId,
     createdAt: body.createdAt,
     payload: body,
   });
 
-  const quoteStats = getSolverStats(body.solverAddress);
-  quoteStats.quotesSubmitted += 1;
-  saveSolverStats(quoteStats);
-
-  emit(body.workOrderId, 'quoteCreated', body);
+  emit(body.workOrderId, 'quoteCommitted', body);
 
   return reply.status(201).send(body);
 });
@@ -1132,15 +2505,7 @@ server.post('/solver/submissions', async (request, reply) => {
 });
 
 server.post('/challenger/challenges', async (request, reply) => {
-  const body = request.body as {
-    id: string;
-    workOrderId: string;
-    submissionId: string;
-    challengerAddress: string;
-    reproductionSpec: Record<string, unknown>;
-    signature: string;
-    createdAt: number;
-  };
+  const body = request.body as ChallengePayload;
 
   const result = await queueWorkOrder(body.workOrderId, async () => {
     const record = db.getWorkOrder(body.workOrderId);
@@ -1180,31 +2545,43 @@ server.post('/challenger/challenges', async (request, reply) => {
       return { status: 400, body: { error: 'Submission does not belong to work order' } };
     }
 
-    const verifierResponse = await fetch(`${VERIFIER_URL}/challenge`, {
-      method: 'POST',
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ workOrder, submission: submissionRecord.payload, challenge: body }),
-    });
-
-    if (!verifierResponse.ok) {
-      const errorText = await verifierResponse.text();
-      return { status: 500, body: { error: 'Verifier failed', details: errorText } };
+    const submission = submissionRecord.payload as SubmissionPayload;
+    const challengeResults = dedupeChallengeSigners(
+      await Promise.all(
+        VERIFIERS.urls.map((verifierUrl) => runVerifierChallenge(verifierUrl, { workOrder, submission, challenge: body }))
+      )
+    );
+    const counted = challengeResults.filter((result) => result.outcome !== 'ERROR');
+    const outcome = quorumOutcome(counted.map((result) => result.outcome as 'SUCCESS' | 'REJECTED'), VERIFIERS.quorum);
+    if (new Set(counted.map((result) => result.outcome)).size > 1) {
+      recordDispute({
+        id: randomUUID(),
+        workOrderId: workOrder.id,
+        submissionId: body.submissionId,
+        quorum: VERIFIERS.quorum,
+        createdAt: Date.now(),
+        kind: 'CHALLENGE',
+        challengeId: body.id,
+        resolution: outcome,
+        results: challengeResults,
+      });
+    }
+    if (!outcome) {
+      return { status: 503, body: { error: 'No verifier quorum on the challenge', results: challengeResults } };
     }
 
-    const verifierResult = (await verifierResponse.json()) as { outcome: 'SUCCESS' | 'REJECTED' };
-
-    if (verifierResult.outcome === 'SUCCESS') {
+    if (outcome === 'SUCCESS') {
       const selectedQuoteId = workOrder.selection.selectedQuoteId;
       const selectedQuote = selectedQuoteId
         ? (db.listQuotes(workOrder.id).map((q) => q.payload as QuotePayload).find((q) => q.id === selectedQuoteId) ?? null)
         : null;
       const basePrice = selectedQuote ? Number(selectedQuote.price) : Number(workOrder.bounty.amount);
-      const challengeAmount = ((basePrice * 20) / 100).toFixed(4);
+      const challengeAmount = ((basePrice * holdbackPercent(workOrder.milestones.payoutSchedule)) / 100).toFixed(4);
       const now = Date.now();
 
-      if (PATCH_WINDOW_MS > 0) {
-        workOrder.status = 'CHALLENGED';
-        workOrder.deadlines.patchEndsAt = now + PATCH_WINDOW_MS;
+      if (workOrder.windows.patchMs > 0) {
+        transition(workOrder, 'CHALLENGED', 'challenger', 'challenge_succeeded');
+        workOrder.deadlines.patchEndsAt = now + workOrder.windows.patchMs;
         workOrder.challenge.status = 'PATCH_WINDOW';
         workOrder.challenge.challengeId = body.id;
         workOrder.challenge.challengerAddress = body.challengerAddress;
@@ -1219,11 +2596,11 @@ server.post('/challenger/challenges', async (request, reply) => {
           toAddress: body.challengerAddress,
           amount: challengeAmount,
           yellowTransferId: null,
-          milestoneKey: 'M5_NO_CHALLENGE_OR_PATCH_OK',
+          milestoneKey: HOLDBACK_MILESTONE_KEY,
           createdAt: now,
         };
         await recordPayment(workOrder, paymentEvent);
-        workOrder.status = 'FAILED';
+        transition(workOrder, 'FAILED', 'challenger', 'challenge_succeeded');
         persistWorkOrder(workOrder);
         emit(workOrder.id, 'challengeSucceeded', { challenge: body, paymentEvent });
         if (selectedQuote) {
@@ -1241,7 +2618,7 @@ server.post('/challenger/challenges', async (request, reply) => {
       emit(workOrder.id, 'challengeRejected', { challenge: body });
     }
 
-    return { status: 200, body: verifierResult };
+    return { status: 200, body: { outcome, results: challengeResults } };
   });
 
   return reply.status(result.status).send(result.body);
@@ -1259,11 +2636,232 @@ server.get('/work-orders/:id/ws', { websocket: true }, (connection, request) =>
   });
 });
 
+// Closes bidding (or the sealed-bid reveal) for the sweeper: opens the Yellow session, pays quote
+// rewards and selects the best eligible quote. Only revealed quotes are stored, so unrevealed
+// sealed-bid commitments never reach selection.
+async function autoSelectQuote(current: WorkOrder, reason: string) {
+  const quotes = listActiveQuotes(current.id);
+  if (quotes.length === 0) {
+    const expiredReason =
+      current.status === 'REVEAL' ? 'no_reveals' : current.bidding.mode === 'DUTCH' ? 'no_acceptance' : 'no_quotes';
+    transition(current, 'EXPIRED', 'sweeper', expiredReason);
+    persistWorkOrder(current);
+    emit(current.id, 'workOrderExpired', { reason: expiredReason });
+    return;
+  }
+  if (!selectBestQuote(current, quotes)) {
+    transition(current, 'EXPIRED', 'sweeper', 'no_eligible_quotes');
+    persistWorkOrder(current);
+    emit(current.id, 'workOrderExpired', { reason: 'no_eligible_quotes' });
+    return;
+  }
+
+  try {
+    const session = await ensureYellowSession(current, quotes);
+    emit(current.id, 'yellowSessionCreated', session);
+    await ensureQuoteRewardsPaid(current, quotes);
+  } catch (error) {
+    server.log.error(error, 'failed to ensure Yellow session/quote rewards (auto)');
+    return;
+  }
+
+  const allowedSolvers = new Set(
+    (current.yellow.participants ?? []).slice(1).map((participant) => participant.toLowerCase())
+  );
+  const eligibleQuotes = quotes.filter((quote) => allowedSolvers.has(quote.solverAddress.toLowerCase()));
+  if (eligibleQuotes.length === 0) {
+    transition(current, 'EXPIRED', 'sweeper', 'session_participant_cap');
+    persistWorkOrder(current);
+    emit(current.id, 'workOrderExpired', { reason: 'session_participant_cap' });
+    return;
+  }
+
+  const attempted = current.selection.attemptedQuoteIds ?? [];
+  const selectedQuote =
+    selectNextQuote(current, eligibleQuotes, attempted) ?? selectBestQuote(current, eligibleQuotes);
+  if (!selectedQuote) {
+    transition(current, 'EXPIRED', 'sweeper', 'no_eligible_quotes');
+    persistWorkOrder(current);
+    emit(current.id, 'workOrderExpired', { reason: 'no_eligible_quotes' });
+    return;
+  }
+  applySelection(current, selectedQuote, 'sweeper', reason, pickRacers(current, selectedQuote, eligibleQuotes));
+
+  const winStats = getSolverStats(selectedQuote.solverAddress);
+  winStats.quotesWon += 1;
+  saveSolverStats(winStats);
+  persistWorkOrder(current);
+  emit(current.id, 'solverAutoSelected', { quote: selectedQuote });
+}
+
+// Treats a missed delivery window like a failed verification: the silent solvers are charged a
+// timeout and the next eligible quote gets a fresh window. Expires only when candidates run out.
+async function handleDeliveryTimeout(current: WorkOrder) {
+  const racers = activeRacers(current);
+  const timedOutQuoteIds = racers.length > 0
+    ? racers.map((racer) => racer.quoteId)
+    : [current.selection.selectedQuoteId].filter((quoteId): quoteId is string => Boolean(quoteId));
+
+  const quotes = listActiveQuotes(current.id);
+  const allQuotes = db.listQuotes(current.id).map((q) => q.payload as QuotePayload);
+  const attempted = current.selection.attemptedQuoteIds ?? [];
+  for (const quoteId of timedOutQuoteIds) {
+    if (!attempted.includes(quoteId)) attempted.push(quoteId);
+    const quote = allQuotes.find((candidate) => candidate.id === quoteId);
+    if (!quote) continue;
+    const stats = getSolverStats(quote.solverAddress);
+    stats.deliveriesTimedOut += 1;
+    saveSolverStats(stats);
+  }
+  current.selection.attemptedQuoteIds = attempted;
+  emit(current.id, 'deliveryTimedOut', { quoteIds: timedOutQuoteIds });
+
+  const allowedSolvers = new Set(
+    (current.yellow.participants ?? []).slice(1).map((participant) => participant.toLowerCase())
+  );
+  const eligibleQuotes = allowedSolvers.size > 0
+    ? quotes.filter((quote) => allowedSolvers.has(quote.solverAddress.toLowerCase()))
+    : quotes;
+
+  const fallbackQuote = selectNextQuote(current, eligibleQuotes, attempted);
+  if (!fallbackQuote) {
+    transition(current, 'EXPIRED', 'sweeper', 'delivery_window');
+    persistWorkOrder(current);
+    emit(current.id, 'workOrderExpired', { reason: 'delivery_window' });
+    return;
+  }
+
+  applySelection(
+    current,
+    fallbackQuote,
+    'sweeper',
+    'fallback_after_delivery_timeout',
+    pickRacers(current, fallbackQuote, eligibleQuotes)
+  );
+  persistWorkOrder(current);
+  emit(current.id, 'solverFallbackSelected', { quote: fallbackQuote });
+}
+
+async function refreshVerificationAttempt(current: WorkOrder, racerAttempt?: RacerVerification) {
+  const attempt = racerAttempt ?? current.verification;
+  const { jobs = [], retryAt } = attempt;
+  if (jobs.length > 0) {
+    await applyVerificationJobs(current, racerAttempt);
+    return;
+  }
+
+  // No jobs and no retry pending: the API stopped before the jobs were queued.
+  if (retryAt && Date.now() < retryAt) return;
+  const submissions = db.listSubmissions(current.id).map((entry) => entry.payload as SubmissionPayload);
+  const submission = submissions.find((entry) => entry.id === attempt.submissionId)
+    ?? (racerAttempt ? undefined : submissions[submissions.length - 1]);
+  if (!submission) {
+    if (racerAttempt) dropRacerVerification(current, racerAttempt);
+    else transition(current, 'FAILED', 'verifier', 'verifier_unavailable');
+    persistWorkOrder(current);
+    emit(current.id, 'verificationFailed', {
+      error: 'Submission not found',
+      infrastructure: true,
+      quoteId: racerAttempt?.quoteId,
+    });
+    return;
+  }
+  emit(current.id, 'verificationRetried', { attempt: (attempt.attempts ?? 0) + 1, quoteId: racerAttempt?.quoteId });
+  await startVerification(current, submission, racerAttempt);
+}
+
+// Moves verification along, for a VERIFYING order or for each racer delivery of a SELECTED one: re-reads
+// the verifier jobs and applies the verdict once they have finished, or starts the next attempt once a
+// retry is due. Called from the job callback and the sweeper.
+function refreshVerification(workOrderId: string) {
+  return queueWorkOrder(workOrderId, async () => {
+    const record = db.getWorkOrder(workOrderId);
+    if (!record) return;
+    const current = normalizeWorkOrder(record.payload as WorkOrder);
+    if (current.status === 'SELECTED') {
+      for (const racerAttempt of [...(current.verification.racers ?? [])]) {
+        // A pass or the last failure ends the race and clears the remaining attempts.
+        if (current.status !== 'SELECTED' || !current.verification.racers?.includes(racerAttempt)) break;
+        await refreshVerificationAttempt(current, racerAttempt);
+      }
+      return;
+    }
+    if (current.status !== 'VERIFYING') return;
+    await refreshVerificationAttempt(current);
+  });
+}
+
+// An outcome only counts once its signature checks out against VERIFIER_ADDRESSES and this challenge.
+async function runVerifierChallenge(
+  verifierUrl: string,
+  payload: { workOrder: WorkOrder; submission: SubmissionPayload; challenge: ChallengePayload }
+): Promise<ChallengeVerifierResult> {
+  const errored = (error: string): ChallengeVerifierResult => ({
+    verifierUrl,
+    outcome: 'ERROR',
+    failure: null,
+    signer: null,
+    error,
+  });
+  try {
+    const response = await fetch(`${verifierUrl}/challenge`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(VERIFIER_CHALLENGE_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return errored(`Verifier responded ${response.status}: ${await response.text()}`);
+    }
+    const result = (await response.json()) as ChallengeResult;
+    const { outcome, failure } = result;
+    if (outcome === 'ERROR' && failure) {
+      return { ...errored(`${failure.code}: ${failure.message}`), failure };
+    }
+    if (outcome !== 'SUCCESS' && outcome !== 'REJECTED') {
+      return errored(`Unexpected challenge outcome ${String(outcome)}`);
+    }
+    const check = checkChallengeAttestation(result, { verifierAddresses: VERIFIER_ADDRESSES, ...payload });
+    if (!check.ok) return errored(`Rejected challenge result: ${check.error}`);
+    return { verifierUrl, outcome, failure: null, attestation: result.attestation, signer: check.signer, error: null };
+  } catch (err) {
+    if ((err as any)?.name === 'TimeoutError') {
+      return errored(`Verifier timed out after ${VERIFIER_CHALLENGE_TIMEOUT_MS}ms`);
+    }
+    return errored(String((err as any)?.message ?? err));
+  }
+}
+
+// Last auction step announced per work order, so each price rise is pushed once.
+const dutchStepByWorkOrder = new Map<string, number>();
+
+function emitDutchPriceTick(workOrder: WorkOrder, now: number) {
+  const auction = workOrder.bidding.dutchAuction;
+  if (!auction) return;
+  const step = dutchAuctionStep(auction, now);
+  if (dutchStepByWorkOrder.get(workOrder.id) === step) return;
+  dutchStepByWorkOrder.set(workOrder.id, step);
+  emit(workOrder.id, 'auctionPriceTick', {
+    price: dutchPriceAt(auction, workOrder.bounty.amount, now),
+    step,
+    steps: auction.steps,
+    nextPriceAt: nextDutchPriceAt(auction, now),
+  });
+}
+
 async function sweepWorkOrders() {
   const now = Date.now();
   const workOrders = db.listWorkOrders().map((record) => normalizeWorkOrder(record.payload as WorkOrder));
 
   for (const workOrder of workOrders) {
+    if (workOrder.bidding.mode === 'DUTCH') {
+      if (workOrder.status === 'BIDDING' && now < workOrder.bidding.biddingEndsAt) {
+        emitDutchPriceTick(workOrder, now);
+      } else {
+        dutchStepByWorkOrder.delete(workOrder.id);
+      }
+    }
+
     if (workOrder.status === 'BIDDING' && now >= workOrder.bidding.biddingEndsAt) {
       await queueWorkOrder(workOrder.id, async () => {
         const record = db.getWorkOrder(workOrder.id);
@@ -1274,52 +2872,58 @@ async function sweepWorkOrders() {
         if (current.status !== 'BIDDING') return;
         if (now < current.bidding.biddingEndsAt) return;
 
-        const quotes = db.listQuotes(current.id).map((q) => q.payload as QuotePayload);
-        if (quotes.length === 0) {
-          current.status = 'EXPIRED';
+        if (current.bidding.mode === 'SEALED') {
+          if (db.listQuoteCommitments(current.id).length === 0) {
+            transition(current, 'EXPIRED', 'sweeper', 'no_quotes');
+            persistWorkOrder(current);
+            emit(current.id, 'workOrderExpired', { reason: 'no_quotes' });
+            return;
+          }
+          transition(current, 'REVEAL', 'sweeper', 'bidding_closed');
           persistWorkOrder(current);
-          emit(current.id, 'workOrderExpired', { reason: 'no_quotes' });
+          emit(current.id, 'revealOpened', { revealEndsAt: current.bidding.revealEndsAt });
           return;
         }
 
-        try {
-          const session = await ensureYellowSession(current, quotes);
-          emit(current.id, 'yellowSessionCreated', session);
-          await ensureQuoteRewardsPaid(current, quotes);
-        } catch (error) {
-          server.log.error(error, 'failed to ensure Yellow session/quote rewards (auto)');
-          return;
-        }
+        await autoSelectQuote(current, 'bidding_closed');
+      });
+      continue;
+    }
 
-        const allowedSolvers = new Set(
-          (current.yellow.participants ?? []).slice(1).map((participant) => participant.toLowerCase())
-        );
-        const eligibleQuotes = quotes.filter((quote) => allowedSolvers.has(quote.solverAddress.toLowerCase()));
-        if (eligibleQuotes.length === 0) {
-          current.status = 'EXPIRED';
-          persistWorkOrder(current);
-          emit(current.id, 'workOrderExpired', { reason: 'session_participant_cap' });
-          return;
-        }
+    if (workOrder.status === 'REVEAL' && workOrder.bidding.revealEndsAt !== null && now >= workOrder.bidding.revealEndsAt) {
+      await queueWorkOrder(workOrder.id, async () => {
+        const record = db.getWorkOrder(workOrder.id);
+        if (!record) return;
+        const current = normalizeWorkOrder(record.payload as WorkOrder);
+        if (!canTransition(current, 'SELECTED', 'sweeper')) return;
+        await autoSelectQuote(current, 'reveal_closed');
+      });
+      continue;
+    }
 
-        const attempted = current.selection.attemptedQuoteIds ?? [];
-        const selectedQuote = selectNextQuote(eligibleQuotes, attempted) ?? selectBestQuote(eligibleQuotes);
-        if (!selectedQuote) return;
-        applySelection(current, selectedQuote);
+    // Racers that delivered in time are judged before the silent ones are timed out.
+    if (workOrder.status === 'SELECTED' && workOrder.verification.racers?.length) {
+      await refreshVerification(workOrder.id);
+      continue;
+    }
 
-        const winStats = getSolverStats(selectedQuote.solverAddress);
-        winStats.quotesWon += 1;
-        saveSolverStats(winStats);
-        persistWorkOrder(current);
-        emit(current.id, 'solverAutoSelected', { quote: selectedQuote });
+    if (workOrder.status === 'SELECTED' && workOrder.deadlines.deliveryEndsAt && now > workOrder.deadlines.deliveryEndsAt) {
+      // Re-read under the work-order lock: a submission may have moved the order to VERIFYING
+      // since the snapshot above was taken, and that must not be overwritten with EXPIRED.
+      await queueWorkOrder(workOrder.id, async () => {
+        const record = db.getWorkOrder(workOrder.id);
+        if (!record) return;
+        const current = normalizeWorkOrder(record.payload as WorkOrder);
+        if (!canTransition(current, 'EXPIRED', 'sweeper') || current.verification.racers?.length) return;
+        await handleDeliveryTimeout(current);
       });
       continue;
     }
 
-    if (workOrder.status === 'SELECTED' && workOrder.deadlines.deliveryEndsAt && now > workOrder.deadlines.deliveryEndsAt) {
-      workOrder.status = 'EXPIRED';
-      persistWorkOrder(workOrder);
-      emit(workOrder.id, 'workOrderExpired', { reason: 'delivery_window' });
+    // Polls the verifier job in case its callback was lost.
+    if (workOrder.status === 'VERIFYING') {
+      await refreshVerification(workOrder.id);
+      continue;
     }
 
     if (workOrder.status === 'PASSED_PENDING_CHALLENGE' && workOrder.deadlines.challengeEndsAt && now > workOrder.deadlines.challengeEndsAt) {
@@ -1330,7 +2934,7 @@ async function sweepWorkOrders() {
         const now = Date.now();
         if (current.status !== 'PASSED_PENDING_CHALLENGE') return;
         if (!current.deadlines.challengeEndsAt || now <= current.deadlines.challengeEndsAt) return;
-        await settleWorkOrder(current);
+        await settleWorkOrder(current, 'sweeper');
       });
       continue;
     }
@@ -1340,10 +2944,8 @@ async function sweepWorkOrders() {
         const record = db.getWorkOrder(workOrder.id);
         if (!record) return;
         const current = normalizeWorkOrder(record.payload as WorkOrder);
-        const now = Date.now();
-        if (current.status !== 'CHALLENGED') return;
-        if (!current.deadlines.patchEndsAt || now <= current.deadlines.patchEndsAt) return;
-        await finalizeChallengeFailure(current);
+        if (!canTransition(current, 'FAILED', 'sweeper')) return;
+        await finalizeChallengeFailure(current, 'sweeper', 'patch_window_expired');
       });
       continue;
     }
@@ -1368,6 +2970,13 @@ const host = process.env.HOST ?? '0.0.0.0';
 
 server
   .listen({ port, host })
+  .then(() => {
+    if (VERIFIER_ADDRESSES.length < VERIFIERS.quorum) {
+      server.log.warn(
+        `${VERIFIER_ADDRESSES.length} verifier address(es) configured for a quorum of ${VERIFIERS.quorum}; verification results will be rejected`
+      );
+    }
+  })
   .catch((err) => {
     server.log.error(err, 'failed to start api');
     process.exit(1);
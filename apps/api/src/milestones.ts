@@ -0,0 +1,78 @@
+import type { HookTemplateDefinition, MilestoneKey, MilestonePayout } from '@v4shm/shared';
+
+// Paid at settlement once the challenge window closes; also funds the challenge reward.
+export const HOLDBACK_MILESTONE_KEY: MilestoneKey = 'M5_NO_CHALLENGE_OR_PATCH_OK';
+
+export const DEFAULT_PAYOUT_SCHEDULE: MilestonePayout[] = [
+  { key: 'M1_COMPILE_OK', percent: 10 },
+  { key: 'M2_TESTS_OK', percent: 25 },
+  { key: 'M3_DEPLOY_OK', percent: 20 },
+  { key: 'M4_V4_POOL_PROOF_OK', percent: 25 },
+  { key: 'M5_NO_CHALLENGE_OR_PATCH_OK', percent: 20 },
+];
+
+export function holdbackPercent(schedule: MilestonePayout[]) {
+  return schedule.find((milestone) => milestone.key === HOLDBACK_MILESTONE_KEY)?.percent ?? 0;
+}
+
+// Default percentages for the template's milestones, with any gap folded into the holdback.
+function defaultScheduleFor(template: HookTemplateDefinition): MilestonePayout[] {
+  const schedule = DEFAULT_PAYOUT_SCHEDULE.filter(
+    (milestone) => milestone.key !== HOLDBACK_MILESTONE_KEY && template.milestones.includes(milestone.key)
+  ).map((milestone) => ({ ...milestone }));
+  const assigned = schedule.reduce((acc, milestone) => acc + milestone.percent, 0);
+  schedule.push({ key: HOLDBACK_MILESTONE_KEY, percent: 100 - assigned });
+  return schedule;
+}
+
+export function parsePayoutSchedule(
+  input: unknown,
+  template: HookTemplateDefinition
+): { ok: true; schedule: MilestonePayout[] } | { ok: false; errors: Record<string, string> } {
+  if (input === undefined || input === null) {
+    return { ok: true, schedule: defaultScheduleFor(template) };
+  }
+  if (!Array.isArray(input) || input.length === 0) {
+    return { ok: false, errors: { payoutSchedule: 'must be a non-empty array' } };
+  }
+
+  // Keys the template's verifier run can emit, plus the settlement holdback.
+  const order: string[] = [...template.milestones, HOLDBACK_MILESTONE_KEY];
+  const knownKeys = new Set(order);
+
+  const errors: Record<string, string> = {};
+  const seen = new Set<string>();
+  const schedule: MilestonePayout[] = [];
+  let total = 0;
+  input.forEach((entry, index) => {
+    const { key, percent } = (entry ?? {}) as { key?: unknown; percent?: unknown };
+    const label = typeof key === 'string' && key ? key : `payoutSchedule[${index}]`;
+    if (typeof key !== 'string' || !knownKeys.has(key)) {
+      errors[label] = `unknown milestone for ${template.type} (expected one of ${order.join(', ')})`;
+      return;
+    }
+    if (seen.has(key)) {
+      errors[label] = 'duplicate milestone';
+      return;
+    }
+    seen.add(key);
+    if (typeof percent !== 'number' || !Number.isInteger(percent) || percent < 1 || percent > 100) {
+      errors[label] = 'percent must be an integer between 1 and 100';
+      return;
+    }
+    total += percent;
+    schedule.push({ key: key as MilestoneKey, percent });
+  });
+
+  if (Object.keys(errors).length === 0) {
+    if (!seen.has(HOLDBACK_MILESTONE_KEY)) {
+      errors[HOLDBACK_MILESTONE_KEY] = 'required (the holdback funds challenge rewards)';
+    }
+    if (total !== 100) errors.payoutSchedule = `percentages must sum to 100 (got ${total})`;
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  // Keep payouts in the order the verifier reaches them.
+  schedule.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key));
+  return { ok: true, schedule };
+}
@@ -0,0 +1,77 @@
+import type { ChallengeVerifierResult, VerifierResult } from '@v4shm/shared';
+
+export type VerifierSet = {
+  urls: string[];
+  quorum: number;
+};
+
+// VERIFIER_URLS (or the single VERIFIER_URL) and VERIFIER_QUORUM, which defaults to a majority.
+export function parseVerifierSet(env: NodeJS.ProcessEnv): VerifierSet {
+  const urls = [
+    ...new Set(
+      (env.VERIFIER_URLS || env.VERIFIER_URL || 'http://localhost:3002')
+        .split(',')
+        .map((entry) => entry.trim().replace(/\/+$/, ''))
+        .filter(Boolean)
+    ),
+  ];
+  if (urls.length === 0) throw new Error('VERIFIER_URLS must list at least one verifier');
+  const quorum = env.VERIFIER_QUORUM ? Number(env.VERIFIER_QUORUM) : Math.floor(urls.length / 2) + 1;
+  if (!Number.isInteger(quorum) || quorum < 1 || quorum > urls.length) {
+    throw new Error(`VERIFIER_QUORUM must be an integer between 1 and ${urls.length}`);
+  }
+  return { urls, quorum };
+}
+
+// The outcome backed by at least `quorum` votes. With a quorum of half or less two outcomes can both
+// reach it; the larger wins and a tie settles nothing.
+export function quorumOutcome<T extends string>(votes: T[], quorum: number): T | null {
+  const counts = new Map<T, number>();
+  for (const vote of votes) counts.set(vote, (counts.get(vote) ?? 0) + 1);
+  const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  const [first, second] = ranked;
+  if (!first || first[1] < quorum || (second && second[1] === first[1])) return null;
+  return first[0];
+}
+
+// Milestones attested by at least `quorum` verifiers, in the order they were first attested.
+export function quorumMilestones(attested: string[][], quorum: number): string[] {
+  const counts = new Map<string, number>();
+  for (const milestones of attested) {
+    for (const milestone of new Set(milestones)) counts.set(milestone, (counts.get(milestone) ?? 0) + 1);
+  }
+  return [...counts.entries()].filter(([, count]) => count >= quorum).map(([milestone]) => milestone);
+}
+
+// A verifier key counts once, however many verifier URLs sign with it.
+export function dedupeSigners(results: VerifierResult[]): VerifierResult[] {
+  const seen = new Set<string>();
+  return results.map((result) => {
+    if (result.status === 'ERROR' || !result.signer) return result;
+    if (seen.has(result.signer)) {
+      return { ...result, status: 'ERROR', error: `Signer ${result.signer} already counted for another verifier` };
+    }
+    seen.add(result.signer);
+    return result;
+  });
+}
+
+export function dedupeChallengeSigners(results: ChallengeVerifierResult[]): ChallengeVerifierResult[] {
+  const seen = new Set<string>();
+  return results.map((result) => {
+    if (result.outcome === 'ERROR' || !result.signer) return result;
+    if (seen.has(result.signer)) {
+      return { ...result, outcome: 'ERROR', error: `Signer ${result.signer} already counted for another verifier` };
+    }
+    seen.add(result.signer);
+    return result;
+  });
+}
+
+// Results disagree when verifiers that produced one differ on the verdict or the milestones passed.
+export function verificationDisagreement(results: VerifierResult[]) {
+  const verdicts = results
+    .filter((result) => result.status !== 'ERROR')
+    .map((result) => `${result.status}:${[...result.milestones].sort().join(',')}`);
+  return new Set(verdicts).size > 1;
+}
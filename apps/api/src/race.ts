@@ -0,0 +1,38 @@
+import type { RaceConfig } from '@v4shm/shared';
+
+export const RACE_SOLVER_BOUNDS = { min: 2, max: 5 };
+
+const DECIMAL_PATTERN = /^\d+(\.\d{1,6})?$/;
+
+export function parseRace(
+  input: unknown,
+  context: { bountyAmount: string }
+): { ok: true; race: RaceConfig | null } | { ok: false; errors: Record<string, string> } {
+  if (input === undefined || input === null) return { ok: true, race: null };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: { race: 'must be an object' } };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: Record<string, string> = {};
+  for (const key of Object.keys(raw)) {
+    if (key !== 'solvers' && key !== 'consolationAmount') errors[key] = 'unknown field';
+  }
+
+  const { min, max } = RACE_SOLVER_BOUNDS;
+  if (typeof raw.solvers !== 'number' || !Number.isInteger(raw.solvers) || raw.solvers < min || raw.solvers > max) {
+    errors.solvers = `must be an integer between ${min} and ${max}`;
+  }
+
+  const consolationAmount = typeof raw.consolationAmount === 'number'
+    ? String(raw.consolationAmount)
+    : raw.consolationAmount ?? '0';
+  if (typeof consolationAmount !== 'string' || !DECIMAL_PATTERN.test(consolationAmount)) {
+    errors.consolationAmount = 'must be a decimal amount with at most 6 decimals';
+  } else if (Number(consolationAmount) >= Number(context.bountyAmount)) {
+    errors.consolationAmount = 'must be below the bounty amount';
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return { ok: true, race: { solvers: raw.solvers as number, consolationAmount: consolationAmount as string } };
+}
@@ -4,6 +4,8 @@ export type SolverStats = {
   quotesWon: number;
   deliveriesSucceeded: number;
   deliveriesFailed: number;
+  // Selected but never delivered before the delivery window closed.
+  deliveriesTimedOut: number;
   onTimeDeliveries: number;
   totalEtaMinutes: number;
   totalActualMinutes: number;
@@ -25,6 +27,7 @@ export function emptySolverStats(address: string): SolverStats {
     quotesWon: 0,
     deliveriesSucceeded: 0,
     deliveriesFailed: 0,
+    deliveriesTimedOut: 0,
     onTimeDeliveries: 0,
     totalEtaMinutes: 0,
     totalActualMinutes: 0,
@@ -34,11 +37,13 @@ export function emptySolverStats(address: string): SolverStats {
 }
 
 export function calculateReputation(stats: SolverStats): SolverReputation {
-  const deliveries = stats.deliveriesSucceeded + stats.deliveriesFailed;
+  const completed = stats.deliveriesSucceeded + stats.deliveriesFailed;
+  // Timed-out deliveries count against pass and on-time rates but have no actual time to compare.
+  const deliveries = completed + stats.deliveriesTimedOut;
   const passRate = deliveries > 0 ? stats.deliveriesSucceeded / deliveries : 0;
   const onTimeRate = deliveries > 0 ? stats.onTimeDeliveries / deliveries : 0;
-  const avgEta = deliveries > 0 ? stats.totalEtaMinutes / deliveries : 0;
-  const avgActual = deliveries > 0 ? stats.totalActualMinutes / deliveries : 0;
+  const avgEta = completed > 0 ? stats.totalEtaMinutes / completed : 0;
+  const avgActual = completed > 0 ? stats.totalActualMinutes / completed : 0;
   const quoteAccuracy = avgEta > 0 ? Math.max(0, 1 - Math.abs(avgActual - avgEta) / avgEta) : 0;
   const baseScore = 100 * (0.4 * passRate + 0.3 * onTimeRate + 0.3 * quoteAccuracy);
   const penalty = stats.challengesAgainst * 5;
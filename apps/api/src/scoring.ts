@@ -0,0 +1,175 @@
+import type { QuotePayload, QuoteScore, ScoringPolicy } from '@v4shm/shared';
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = { strategy: 'LOWEST_PRICE', minReputation: 0 };
+
+export const DEFAULT_SCORING_WEIGHTS: NonNullable<ScoringPolicy['weights']> = { price: 0.6, eta: 0.2, reputation: 0.2 };
+
+const WEIGHT_KEYS = ['price', 'eta', 'reputation'] as const;
+
+export function parseScoringPolicy(
+  input: unknown
+): { ok: true; policy: ScoringPolicy } | { ok: false; errors: Record<string, string> } {
+  if (input === undefined || input === null) return { ok: true, policy: { ...DEFAULT_SCORING_POLICY } };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: { scoringPolicy: 'must be an object' } };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: Record<string, string> = {};
+  for (const key of Object.keys(raw)) {
+    if (key !== 'strategy' && key !== 'weights' && key !== 'minReputation') errors[key] = 'unknown field';
+  }
+
+  const strategy = raw.strategy ?? DEFAULT_SCORING_POLICY.strategy;
+  if (strategy !== 'LOWEST_PRICE' && strategy !== 'WEIGHTED') {
+    errors.strategy = 'must be LOWEST_PRICE or WEIGHTED';
+  }
+
+  const minReputation = raw.minReputation ?? 0;
+  if (typeof minReputation !== 'number' || !Number.isFinite(minReputation) || minReputation < 0 || minReputation > 100) {
+    errors.minReputation = 'must be a number between 0 and 100';
+  }
+
+  let weights: ScoringPolicy['weights'];
+  if (raw.weights !== undefined) {
+    if (strategy !== 'WEIGHTED') {
+      errors.weights = 'only allowed with the WEIGHTED strategy';
+    } else if (typeof raw.weights !== 'object' || raw.weights === null || Array.isArray(raw.weights)) {
+      errors.weights = 'must be an object';
+    } else {
+      const rawWeights = raw.weights as Record<string, unknown>;
+      const parsed = { ...DEFAULT_SCORING_WEIGHTS };
+      for (const key of Object.keys(rawWeights)) {
+        if (!(WEIGHT_KEYS as readonly string[]).includes(key)) errors[`weights.${key}`] = 'unknown weight';
+      }
+      for (const key of WEIGHT_KEYS) {
+        const value = rawWeights[key];
+        if (value === undefined) continue;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          errors[`weights.${key}`] = 'must be a non-negative number';
+        } else {
+          parsed[key] = value;
+        }
+      }
+      if (WEIGHT_KEYS.every((key) => parsed[key] === 0)) errors.weights = 'at least one weight must be positive';
+      weights = parsed;
+    }
+  } else if (strategy === 'WEIGHTED') {
+    weights = { ...DEFAULT_SCORING_WEIGHTS };
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    policy: { strategy: strategy as ScoringPolicy['strategy'], ...(weights ? { weights } : {}), minReputation: minReputation as number },
+  };
+}
+
+function round(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+// Lower is better for price and ETA, so each quote is scored as best/own.
+function relativeToBest(best: number, own: number) {
+  if (own <= 0 || own <= best) return 1;
+  return best / own;
+}
+
+function compareLowestPrice(a: QuoteScore, b: QuoteScore) {
+  const priceDiff = Number(a.price) - Number(b.price);
+  if (priceDiff !== 0) return priceDiff;
+  const etaDiff = a.etaMinutes - b.etaMinutes;
+  if (etaDiff !== 0) return etaDiff;
+  return b.reputation - a.reputation;
+}
+
+// Ranks quotes under the policy. Eligible quotes come first, best first; `excluded` maps quote ids
+// to a reason they cannot be picked regardless of score.
+export function scoreQuotes(
+  policy: ScoringPolicy,
+  quotes: QuotePayload[],
+  reputationOf: (solverAddress: string) => number,
+  excluded: Map<string, string> = new Map()
+): QuoteScore[] {
+  const prices = quotes.map((quote) => Number(quote.price));
+  const etas = quotes.map((quote) => quote.etaMinutes);
+  const bestPrice = Math.min(...prices);
+  const bestEta = Math.min(...etas);
+  const weights = policy.strategy === 'WEIGHTED' ? policy.weights ?? DEFAULT_SCORING_WEIGHTS : null;
+  const weightTotal = weights ? weights.price + weights.eta + weights.reputation : 0;
+
+  const tieBreak = new Map(quotes.map((quote) => [quote.id, quote.updatedAt ?? quote.createdAt]));
+  const scored: QuoteScore[] = quotes.map((quote) => {
+    const reputation = reputationOf(quote.solverAddress);
+    const components = {
+      price: round(relativeToBest(bestPrice, Number(quote.price))),
+      eta: round(relativeToBest(bestEta, quote.etaMinutes)),
+      reputation: round(reputation / 100),
+    };
+    const score = weights
+      ? round(
+          (weights.price * components.price + weights.eta * components.eta + weights.reputation * components.reputation) /
+            weightTotal
+        )
+      : null;
+
+    let ineligibleReason = excluded.get(quote.id) ?? null;
+    if (!ineligibleReason && reputation < policy.minReputation) {
+      ineligibleReason = `Reputation ${reputation} below minimum ${policy.minReputation}`;
+    }
+
+    return {
+      quoteId: quote.id,
+      solverAddress: quote.solverAddress,
+      price: quote.price,
+      etaMinutes: quote.etaMinutes,
+      reputation,
+      components,
+      score,
+      eligible: ineligibleReason === null,
+      ineligibleReason,
+      rank: null,
+    };
+  });
+
+  scored.sort((a, b) => {
+    if (a.eligible !== b.eligible) return a.eligible ? -1 : 1;
+    const diff = weights ? (b.score ?? 0) - (a.score ?? 0) : compareLowestPrice(a, b);
+    if (diff !== 0) return diff;
+    // A revision gives up the original quote's place in the tie-break.
+    return (tieBreak.get(a.quoteId) ?? 0) - (tieBreak.get(b.quoteId) ?? 0);
+  });
+
+  let rank = 0;
+  for (const entry of scored) {
+    if (entry.eligible) entry.rank = ++rank;
+  }
+  return scored;
+}
+
+export function explainWinner(policy: ScoringPolicy, scored: QuoteScore[]) {
+  const [winner, runnerUp] = scored.filter((entry) => entry.eligible);
+  if (!winner) {
+    if (scored.length === 0) return 'No active quotes';
+    return policy.minReputation > 0
+      ? `No quote meets the minimum reputation of ${policy.minReputation}`
+      : 'No eligible quotes';
+  }
+  if (!runnerUp) return 'Only eligible quote';
+
+  if (policy.strategy === 'WEIGHTED') {
+    return winner.score === runnerUp.score
+      ? `Tied on weighted score ${winner.score}; quoted earlier`
+      : `Highest weighted score (${winner.score} vs ${runnerUp.score})`;
+  }
+  if (Number(winner.price) !== Number(runnerUp.price)) {
+    return `Lowest price (${winner.price} vs ${runnerUp.price})`;
+  }
+  if (winner.etaMinutes !== runnerUp.etaMinutes) {
+    return `Tied on price; faster ETA (${winner.etaMinutes} vs ${runnerUp.etaMinutes} min)`;
+  }
+  if (winner.reputation !== runnerUp.reputation) {
+    return `Tied on price and ETA; higher reputation (${winner.reputation} vs ${runnerUp.reputation})`;
+  }
+  return 'Tied on price, ETA and reputation; quoted earlier';
+}
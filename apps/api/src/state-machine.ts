@@ -0,0 +1,212 @@
+import { randomUUID } from 'node:crypto';
+import type {
+  WorkOrder,
+  WorkOrderStatus,
+  WorkOrderTransition,
+  WorkOrderTransitionActor,
+} from '@v4shm/shared';
+
+type TransitionRule = {
+  from: WorkOrderStatus;
+  to: WorkOrderStatus;
+  actors: WorkOrderTransitionActor[];
+  // Returns a human-readable reason when the transition is not allowed right now.
+  guard?: (workOrder: WorkOrder, now: number) => string | null;
+  effect?: (workOrder: WorkOrder, now: number) => void;
+};
+
+export class IllegalTransitionError extends Error {
+  readonly workOrderId: string;
+  readonly from: WorkOrderStatus;
+  readonly to: WorkOrderStatus;
+  readonly actor: WorkOrderTransitionActor;
+
+  constructor(input: {
+    workOrderId: string;
+    from: WorkOrderStatus;
+    to: WorkOrderStatus;
+    actor: WorkOrderTransitionActor;
+    detail: string;
+  }) {
+    super(`Illegal work order transition ${input.from} -> ${input.to} by ${input.actor}: ${input.detail}`);
+    this.name = 'IllegalTransitionError';
+    this.workOrderId = input.workOrderId;
+    this.from = input.from;
+    this.to = input.to;
+    this.actor = input.actor;
+  }
+}
+
+function biddingClosed(workOrder: WorkOrder, now: number) {
+  return now < workOrder.bidding.biddingEndsAt ? 'Bidding window still open' : null;
+}
+
+function openBiddingClosed(workOrder: WorkOrder, now: number) {
+  if (workOrder.bidding.mode === 'SEALED') return 'Sealed bids must be revealed before selection';
+  return biddingClosed(workOrder, now);
+}
+
+function sealedBiddingClosed(workOrder: WorkOrder, now: number) {
+  if (workOrder.bidding.mode !== 'SEALED') return 'Work order does not use sealed bids';
+  return biddingClosed(workOrder, now);
+}
+
+function revealClosed(workOrder: WorkOrder, now: number) {
+  const endsAt = workOrder.bidding.revealEndsAt;
+  return endsAt !== null && now >= endsAt ? null : 'Reveal window still open';
+}
+
+function openReveal(workOrder: WorkOrder, now: number) {
+  workOrder.bidding.revealEndsAt = now + workOrder.windows.revealMs;
+}
+
+function deliveryWindowClosed(workOrder: WorkOrder, now: number) {
+  const endsAt = workOrder.deadlines.deliveryEndsAt;
+  return endsAt !== null && now > endsAt ? null : 'Delivery window still open';
+}
+
+function raceUnderWay(workOrder: WorkOrder) {
+  return workOrder.selection.racers?.length ? null : 'No race under way';
+}
+
+function noRacerVerifying(workOrder: WorkOrder) {
+  return workOrder.verification.racers?.length ? 'A racer delivery is under verification' : null;
+}
+
+function resetChallenge(workOrder: WorkOrder) {
+  workOrder.deadlines.challengeEndsAt = null;
+  workOrder.deadlines.patchEndsAt = null;
+  workOrder.challenge.status = 'NONE';
+  workOrder.challenge.challengeId = null;
+  workOrder.challenge.challengerAddress = null;
+  workOrder.challenge.pendingRewardAmount = null;
+}
+
+const TRANSITIONS: TransitionRule[] = [
+  { from: 'DRAFT', to: 'BIDDING', actors: ['requester'] },
+
+  // In a Dutch auction the accepting solver closes bidding and selects itself.
+  {
+    from: 'BIDDING',
+    to: 'SELECTED',
+    actors: ['requester', 'sweeper', 'solver'],
+    guard: openBiddingClosed,
+    effect: resetChallenge,
+  },
+  { from: 'BIDDING', to: 'EXPIRED', actors: ['sweeper'], guard: biddingClosed },
+  // Sealed-bid orders reveal committed quotes before selection.
+  { from: 'BIDDING', to: 'REVEAL', actors: ['sweeper'], guard: sealedBiddingClosed, effect: openReveal },
+  { from: 'REVEAL', to: 'SELECTED', actors: ['requester', 'sweeper'], guard: revealClosed, effect: resetChallenge },
+  { from: 'REVEAL', to: 'EXPIRED', actors: ['sweeper'], guard: revealClosed },
+  // Manual re-selection after a failed or expired run.
+  { from: 'FAILED', to: 'SELECTED', actors: ['requester'], effect: resetChallenge },
+  { from: 'EXPIRED', to: 'SELECTED', actors: ['requester'], effect: resetChallenge },
+
+  { from: 'SELECTED', to: 'VERIFYING', actors: ['solver'] },
+  { from: 'SELECTED', to: 'EXPIRED', actors: ['sweeper'], guard: deliveryWindowClosed },
+  // Fallback to the next-best quote after the selected solver missed its delivery window.
+  { from: 'SELECTED', to: 'SELECTED', actors: ['sweeper'], guard: deliveryWindowClosed, effect: resetChallenge },
+  // Race mode verifies deliveries without leaving SELECTED: the first pass wins, and once every racer
+  // has failed the order falls back or fails.
+  { from: 'SELECTED', to: 'PASSED_PENDING_CHALLENGE', actors: ['verifier'], guard: raceUnderWay },
+  { from: 'SELECTED', to: 'SELECTED', actors: ['verifier'], guard: raceUnderWay, effect: resetChallenge },
+  { from: 'SELECTED', to: 'FAILED', actors: ['verifier'], guard: raceUnderWay },
+
+  { from: 'VERIFYING', to: 'PASSED_PENDING_CHALLENGE', actors: ['verifier'] },
+  // Fallback to the next-best quote after a failed verification.
+  { from: 'VERIFYING', to: 'SELECTED', actors: ['verifier'], effect: resetChallenge },
+  { from: 'VERIFYING', to: 'FAILED', actors: ['verifier'] },
+
+  {
+    from: 'PASSED_PENDING_CHALLENGE',
+    to: 'CHALLENGED',
+    actors: ['challenger'],
+    guard: (workOrder) => (workOrder.challenge.status === 'OPEN' ? null : 'Challenge window not open'),
+  },
+  { from: 'PASSED_PENDING_CHALLENGE', to: 'FAILED', actors: ['challenger'] },
+  {
+    from: 'PASSED_PENDING_CHALLENGE',
+    to: 'COMPLETED',
+    actors: ['requester', 'sweeper'],
+    guard: (workOrder) => (workOrder.challenge.status === 'PATCH_WINDOW' ? 'Patch window open' : null),
+  },
+
+  {
+    from: 'CHALLENGED',
+    to: 'VERIFYING',
+    actors: ['solver'],
+    guard: (workOrder, now) => {
+      const endsAt = workOrder.deadlines.patchEndsAt;
+      return endsAt !== null && now <= endsAt ? null : 'Patch window closed';
+    },
+  },
+  // Requester cancellation before any delivery is under verification or challenge.
+  { from: 'BIDDING', to: 'CANCELLED', actors: ['requester'] },
+  { from: 'REVEAL', to: 'CANCELLED', actors: ['requester'] },
+  { from: 'SELECTED', to: 'CANCELLED', actors: ['requester'], guard: noRacerVerifying },
+  { from: 'FAILED', to: 'CANCELLED', actors: ['requester'] },
+  { from: 'EXPIRED', to: 'CANCELLED', actors: ['requester'] },
+
+  {
+    from: 'CHALLENGED',
+    to: 'FAILED',
+    actors: ['sweeper'],
+    guard: (workOrder, now) => {
+      const endsAt = workOrder.deadlines.patchEndsAt;
+      return endsAt !== null && now > endsAt ? null : 'Patch window still open';
+    },
+  },
+];
+
+function checkRule(
+  workOrder: WorkOrder,
+  to: WorkOrderStatus,
+  actor: WorkOrderTransitionActor,
+  now: number
+): { ok: true; rule: TransitionRule } | { ok: false; error: string } {
+  const rules = TRANSITIONS.filter((candidate) => candidate.from === workOrder.status && candidate.to === to);
+  if (rules.length === 0) return { ok: false, error: 'transition not defined' };
+  const rule = rules.find((candidate) => candidate.actors.includes(actor));
+  if (!rule) {
+    return { ok: false, error: `actor not allowed (expected ${rules.flatMap((candidate) => candidate.actors).join('|')})` };
+  }
+  const blocked = rule.guard?.(workOrder, now) ?? null;
+  if (blocked) return { ok: false, error: blocked };
+  return { ok: true, rule };
+}
+
+export function canTransition(
+  workOrder: WorkOrder,
+  to: WorkOrderStatus,
+  actor: WorkOrderTransitionActor,
+  now = Date.now()
+) {
+  return checkRule(workOrder, to, actor, now).ok;
+}
+
+export function transitionWorkOrder(
+  workOrder: WorkOrder,
+  to: WorkOrderStatus,
+  context: { actor: WorkOrderTransitionActor; reason: string; now?: number }
+): WorkOrderTransition {
+  const now = context.now ?? Date.now();
+  const from = workOrder.status;
+  const check = checkRule(workOrder, to, context.actor, now);
+  if (!check.ok) {
+    throw new IllegalTransitionError({ workOrderId: workOrder.id, from, to, actor: context.actor, detail: check.error });
+  }
+
+  workOrder.status = to;
+  workOrder.revision = (workOrder.revision ?? 0) + 1;
+  check.rule.effect?.(workOrder, now);
+
+  return {
+    id: randomUUID(),
+    workOrderId: workOrder.id,
+    from,
+    to,
+    actor: context.actor,
+    reason: context.reason,
+    createdAt: now,
+  };
+}
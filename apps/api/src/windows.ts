@@ -0,0 +1,56 @@
+import type { WorkOrderWindows } from '@v4shm/shared';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+export const DEFAULT_WINDOWS: WorkOrderWindows = {
+  biddingMs: 5 * MINUTE,
+  revealMs: 2 * MINUTE,
+  deliveryMs: 25 * MINUTE,
+  verifyMs: 10 * MINUTE,
+  challengeMs: 10 * MINUTE,
+  patchMs: 10 * MINUTE,
+};
+
+// Inclusive bounds. A zero patch window means a successful challenge fails the work order immediately.
+export const WINDOW_BOUNDS: Record<keyof WorkOrderWindows, { min: number; max: number }> = {
+  biddingMs: { min: 5 * SECOND, max: 24 * HOUR },
+  revealMs: { min: 5 * SECOND, max: 24 * HOUR },
+  deliveryMs: { min: 10 * SECOND, max: 7 * 24 * HOUR },
+  verifyMs: { min: 10 * SECOND, max: 24 * HOUR },
+  challengeMs: { min: 5 * SECOND, max: 7 * 24 * HOUR },
+  patchMs: { min: 0, max: 7 * 24 * HOUR },
+};
+
+export function parseWindows(
+  input: unknown
+): { ok: true; windows: WorkOrderWindows } | { ok: false; errors: Record<string, string> } {
+  if (input === undefined || input === null) return { ok: true, windows: { ...DEFAULT_WINDOWS } };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: { windows: 'must be an object' } };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: Record<string, string> = {};
+  for (const key of Object.keys(raw)) {
+    if (!Object.hasOwn(WINDOW_BOUNDS, key)) errors[key] = 'unknown window';
+  }
+
+  const windows = { ...DEFAULT_WINDOWS };
+  for (const key of Object.keys(WINDOW_BOUNDS) as Array<keyof WorkOrderWindows>) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    const { min, max } = WINDOW_BOUNDS[key];
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      errors[key] = 'must be an integer number of milliseconds';
+    } else if (value < min || value > max) {
+      errors[key] = `must be between ${min} and ${max} ms`;
+    } else {
+      windows[key] = value;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return { ok: true, windows };
+}
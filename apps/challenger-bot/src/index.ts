@@ -1,6 +1,16 @@
 import { randomUUID } from 'node:crypto';
 import { Wallet } from 'ethers';
-import { signChallenge, signQuote, sha256Hex, WorkOrder, QuotePayload, SubmissionPayload } from '@v4shm/shared';
+import {
+  signChallenge,
+  signQuote,
+  signQuoteCommitment,
+  sha256Hex,
+  quoteCommitmentHash,
+  WorkOrder,
+  QuotePayload,
+  QuoteCommitmentPayload,
+  SubmissionPayload,
+} from '@v4shm/shared';
 
 const API_URL = process.env.API_URL ?? 'http://localhost:3001';
 const PRIVATE_KEY = process.env.CHALLENGER_PRIVATE_KEY;
@@ -19,6 +29,8 @@ const challengerAddress = wallet.address;
 const CHALLENGER_ETA = Number(process.env.CHALLENGER_ETA_MINUTES ?? 45);
 
 const scheduledJoinAtByWorkOrder = new Map<string, number>();
+// Sealed-bid quotes committed during bidding, revealed once the work order enters REVEAL.
+const sealedQuoteByWorkOrder = new Map<string, QuotePayload>();
 
 async function fetchJson<T>(url: string, options?: RequestInit): Promise<T> {
   const res = await fetch(url, {
@@ -59,15 +71,23 @@ async function runOnce() {
       scheduledJoinAtByWorkOrder.delete(workOrder.id);
       continue;
     }
+    // Dutch auctions only seat the accepting solver, so there is no session to join.
+    if (workOrder.bidding.mode === 'DUTCH') continue;
     if (Date.now() < joinAtMs(workOrder)) continue;
-    const existing = await fetchJson<QuotePayload[]>(`${API_URL}/work-orders/${workOrder.id}/quotes`);
+    const sealed = workOrder.bidding.mode === 'SEALED';
+    const existing = sealed
+      ? await fetchJson<QuoteCommitmentPayload[]>(`${API_URL}/work-orders/${workOrder.id}/quote-commitments`)
+      : await fetchJson<QuotePayload[]>(`${API_URL}/work-orders/${workOrder.id}/quotes`);
     if (existing.some((q) => q.solverAddress.toLowerCase() === challengerAddress.toLowerCase())) continue;
 
     const quoteMessage = {
       workOrderId: workOrder.id,
       price: String(workOrder.bounty.amount),
       etaMinutes: CHALLENGER_ETA,
-      validUntil: Date.now() + 5 * 60 * 1000,
+      // Sealed quotes must still be valid when they are revealed after bidding closes.
+      validUntil: sealed
+        ? workOrder.bidding.biddingEndsAt + workOrder.windows.revealMs + 5 * 60 * 1000
+        : Date.now() + 5 * 60 * 1000,
     };
     const signature = await signQuote(quoteMessage, privateKey);
     const quote: QuotePayload = {
@@ -81,10 +101,28 @@ async function runOnce() {
       createdAt: Date.now(),
     };
     try {
-      await fetchJson(`${API_URL}/solver/quotes`, {
-        method: 'POST',
-        body: JSON.stringify(quote),
-      });
+      if (sealed) {
+        const salted = { ...quote, salt: sha256Hex(randomUUID()) };
+        const commitmentHash = quoteCommitmentHash({ ...salted, salt: salted.salt });
+        const commitment: QuoteCommitmentPayload = {
+          id: randomUUID(),
+          workOrderId: workOrder.id,
+          solverAddress: challengerAddress,
+          commitmentHash,
+          signature: await signQuoteCommitment({ workOrderId: workOrder.id, commitmentHash }, privateKey),
+          createdAt: Date.now(),
+        };
+        await fetchJson(`${API_URL}/solver/quote-commitments`, {
+          method: 'POST',
+          body: JSON.stringify(commitment),
+        });
+        sealedQuoteByWorkOrder.set(workOrder.id, salted);
+      } else {
+        await fetchJson(`${API_URL}/solver/quotes`, {
+          method: 'POST',
+          body: JSON.stringify(quote),
+        });
+      }
       console.log(`joined bidding for ${workOrder.id}`);
       scheduledJoinAtByWorkOrder.delete(workOrder.id);
     } catch (err) {
@@ -95,6 +133,24 @@ async function runOnce() {
     }
   }
 
+  if (sealedQuoteByWorkOrder.size > 0) {
+    const revealing = await fetchJson<WorkOrder[]>(`${API_URL}/solver/work-orders?status=REVEAL`);
+    for (const workOrder of revealing) {
+      const quote = sealedQuoteByWorkOrder.get(workOrder.id);
+      if (!quote) continue;
+      sealedQuoteByWorkOrder.delete(workOrder.id);
+      try {
+        await fetchJson(`${API_URL}/solver/quotes`, {
+          method: 'POST',
+          body: JSON.stringify(quote),
+        });
+        console.log(`revealed quote for ${workOrder.id}`);
+      } catch (err) {
+        console.error('quote reveal failed', workOrder.id, err);
+      }
+    }
+  }
+
   const pending = await fetchJson<WorkOrder[]>(`${API_URL}/work-orders?status=PASSED_PENDING_CHALLENGE`);
   for (const workOrder of pending) {
     if (workOrder.challenge?.status !== 'OPEN') continue;
@@ -5,10 +5,16 @@ import { spawn } from 'node:child_process';
 import { Wallet } from 'ethers';
 import {
   signQuote,
+  signAuctionAcceptance,
+  dutchPriceAt,
+  signQuoteCommitment,
   signSubmission,
   sha256Hex,
+  quoteCommitmentHash,
   WorkOrder,
   QuotePayload,
+  QuoteCommitmentPayload,
+  AuctionAcceptancePayload,
   SubmissionPayload,
 } from '@v4shm/shared';
 
@@ -30,6 +36,8 @@ const wallet = new Wallet(privateKey);
 const solverAddress = wallet.address;
 
 const scheduledQuoteAtByWorkOrder = new Map<string, number>();
+// Sealed-bid quotes committed during bidding, kept in memory until the reveal phase.
+const sealedQuoteByWorkOrder = new Map<string, QuotePayload>();
 const inflightSubmissionByWorkOrder = new Set<string>();
 let inflightSubmissionCount = 0;
 
@@ -117,32 +125,121 @@ function quoteAtMs(workOrder: WorkOrder) {
   return scheduledAt;
 }
 
-async function submitQuote(workOrder: WorkOrder) {
-  // Avoid spamming duplicate quotes when running in poll mode.
-  const existing = await fetchJson<QuotePayload[]>(`${API_URL}/work-orders/${workOrder.id}/quotes`);
-  if (existing.some((q) => q.solverAddress.toLowerCase() === solverAddress.toLowerCase())) {
-    scheduledQuoteAtByWorkOrder.delete(workOrder.id);
-    return;
-  }
-
+async function buildQuote(workOrder: WorkOrder, validUntil: number): Promise<QuotePayload> {
   const quotePrice = resolveQuotePrice(workOrder);
   const quoteMessage = {
     workOrderId: workOrder.id,
     price: quotePrice,
     etaMinutes: SOLVER_ETA,
-    validUntil: Date.now() + 5 * 60 * 1000,
+    validUntil,
   };
   const signature = await signQuote(quoteMessage, privateKey);
-  const quote: QuotePayload = {
+  return {
     id: randomUUID(),
     workOrderId: workOrder.id,
     solverAddress,
     price: quotePrice,
     etaMinutes: SOLVER_ETA,
-    validUntil: quoteMessage.validUntil,
+    validUntil,
     signature,
     createdAt: Date.now(),
   };
+}
+
+async function submitCommitment(workOrder: WorkOrder) {
+  const existing = await fetchJson<QuoteCommitmentPayload[]>(`${API_URL}/work-orders/${workOrder.id}/quote-commitments`);
+  if (existing.some((c) => c.solverAddress.toLowerCase() === solverAddress.toLowerCase())) {
+    scheduledQuoteAtByWorkOrder.delete(workOrder.id);
+    return;
+  }
+
+  // The quote must still be valid when it is revealed after bidding closes.
+  const validUntil = workOrder.bidding.biddingEndsAt + workOrder.windows.revealMs + 5 * 60 * 1000;
+  const quote = { ...(await buildQuote(workOrder, validUntil)), salt: sha256Hex(randomUUID()) };
+  const commitmentHash = quoteCommitmentHash({ ...quote, salt: quote.salt });
+  const commitment: QuoteCommitmentPayload = {
+    id: randomUUID(),
+    workOrderId: workOrder.id,
+    solverAddress,
+    commitmentHash,
+    signature: await signQuoteCommitment({ workOrderId: workOrder.id, commitmentHash }, privateKey),
+    createdAt: Date.now(),
+  };
+
+  await fetchJson(`${API_URL}/solver/quote-commitments`, {
+    method: 'POST',
+    body: JSON.stringify(commitment),
+  });
+  sealedQuoteByWorkOrder.set(workOrder.id, quote);
+  scheduledQuoteAtByWorkOrder.delete(workOrder.id);
+  console.log(`quote commitment submitted for ${workOrder.id}`);
+}
+
+async function revealQuote(workOrder: WorkOrder) {
+  const quote = sealedQuoteByWorkOrder.get(workOrder.id);
+  if (!quote) return;
+  sealedQuoteByWorkOrder.delete(workOrder.id);
+  await fetchJson(`${API_URL}/solver/quotes`, {
+    method: 'POST',
+    body: JSON.stringify(quote),
+  });
+  console.log(`quote revealed for ${workOrder.id}`);
+}
+
+// Accepts a Dutch auction once the offered price reaches our asking price.
+async function acceptAuction(workOrder: WorkOrder) {
+  const auction = workOrder.bidding.dutchAuction;
+  if (!auction) return;
+  const currentPrice = dutchPriceAt(auction, workOrder.bounty.amount, Date.now());
+  const askingPrice = parseAmount(resolveQuotePrice(workOrder));
+  if (askingPrice === null || Number(currentPrice) < askingPrice) return;
+
+  const issuedAt = Date.now();
+  const acceptance: AuctionAcceptancePayload = {
+    workOrderId: workOrder.id,
+    solverAddress,
+    price: currentPrice,
+    etaMinutes: SOLVER_ETA,
+    issuedAt,
+    signature: await signAuctionAcceptance(
+      { workOrderId: workOrder.id, price: currentPrice, etaMinutes: SOLVER_ETA, issuedAt },
+      privateKey
+    ),
+  };
+
+  try {
+    await fetchJson(`${API_URL}/work-orders/${workOrder.id}/accept`, {
+      method: 'POST',
+      body: JSON.stringify(acceptance),
+    });
+    console.log(`auction accepted for ${workOrder.id} at ${currentPrice}`);
+  } catch (err) {
+    // Another solver got there first.
+    if (String((err as any)?.message ?? err).includes('Auction already closed')) return;
+    throw err;
+  } finally {
+    scheduledQuoteAtByWorkOrder.delete(workOrder.id);
+  }
+}
+
+async function submitQuote(workOrder: WorkOrder) {
+  if (workOrder.bidding.mode === 'SEALED') {
+    await submitCommitment(workOrder);
+    return;
+  }
+  if (workOrder.bidding.mode === 'DUTCH') {
+    await acceptAuction(workOrder);
+    return;
+  }
+
+  // Avoid spamming duplicate quotes when running in poll mode.
+  const existing = await fetchJson<QuotePayload[]>(`${API_URL}/work-orders/${workOrder.id}/quotes`);
+  if (existing.some((q) => q.solverAddress.toLowerCase() === solverAddress.toLowerCase())) {
+    scheduledQuoteAtByWorkOrder.delete(workOrder.id);
+    return;
+  }
+
+  const quote = await buildQuote(workOrder, Date.now() + 5 * 60 * 1000);
 
   try {
     await fetchJson(`${API_URL}/solver/quotes`, {
@@ -259,6 +356,15 @@ async function submitArtifact(workOrder: WorkOrder) {
   console.log(`submission sent for ${workOrder.id}`);
 }
 
+// In race mode every racer whose delivery has not failed yet may submit.
+function isSelectedToDeliver(workOrder: WorkOrder) {
+  const me = solverAddress.toLowerCase();
+  const racers = workOrder.selection.racers ?? [];
+  if (racers.length === 0) return workOrder.selection.selectedSolverId?.toLowerCase() === me;
+  const attempted = workOrder.selection.attemptedQuoteIds ?? [];
+  return racers.some((racer) => racer.solverAddress.toLowerCase() === me && !attempted.includes(racer.quoteId));
+}
+
 function startSubmission(workOrder: WorkOrder) {
   if (inflightSubmissionByWorkOrder.has(workOrder.id)) return;
   inflightSubmissionByWorkOrder.add(workOrder.id);
@@ -291,6 +397,17 @@ async function runOnce() {
     }
   }
 
+  if (sealedQuoteByWorkOrder.size > 0) {
+    const revealing = await fetchJson<WorkOrder[]>(`${API_URL}/solver/work-orders?status=REVEAL`);
+    for (const workOrder of revealing) {
+      try {
+        await revealQuote(workOrder);
+      } catch (err) {
+        console.error('quote reveal failed', workOrder.id, err);
+      }
+    }
+  }
+
   // Keep the polling loop responsive: only allow a small number of inflight submissions.
   const maxInflight = Math.max(1, Number(process.env.BOT_MAX_INFLIGHT_SUBMISSIONS ?? 1));
   if (inflightSubmissionCount >= maxInflight) return;
@@ -298,7 +415,7 @@ async function runOnce() {
   const selected = await fetchJson<WorkOrder[]>(`${API_URL}/work-orders?status=SELECTED`);
   for (const workOrder of selected) {
     if (inflightSubmissionCount >= maxInflight) break;
-    if (workOrder.selection.selectedSolverId?.toLowerCase() !== solverAddress.toLowerCase()) continue;
+    if (!isSelectedToDeliver(workOrder)) continue;
     const submissions = await fetchJson<SubmissionPayload[]>(`${API_URL}/work-orders/${workOrder.id}/submissions`);
     if (submissions.find((s) => s.solverAddress.toLowerCase() === solverAddress.toLowerCase())) continue;
     startSubmission(workOrder);
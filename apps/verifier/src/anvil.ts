@@ -0,0 +1,86 @@
+import net from 'node:net';
+import { spawn } from 'node:child_process';
+
+// Anvil's own chain id, so local proofs can never be mistaken for Base Sepolia ones.
+export const LOCAL_CHAIN_ID = 31337;
+
+// Anvil's first prefunded dev account. It only ever holds ETH on the throwaway chain.
+const ANVIL_DEV_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ANVIL_DEV_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const ANVIL_START_TIMEOUT_MS = 15 * 1000;
+
+export type LocalChain = {
+  rpcUrl: string;
+  chainId: number;
+  privateKey: string;
+  address: string;
+  stop: () => void;
+};
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function rpcReady(rpcUrl: string) {
+  try {
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+      signal: AbortSignal.timeout(1000),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+// Starts an anvil node on a free port for a single verification run. Call `stop` once the run is done.
+export async function startLocalChain(
+  anvilBin: string,
+  onOutput?: (stream: 'stdout' | 'stderr', chunk: string) => void
+): Promise<LocalChain> {
+  const port = await freePort();
+  const rpcUrl = `http://127.0.0.1:${port}`;
+  const child = spawn(anvilBin, ['--host', '127.0.0.1', '--port', String(port), '--chain-id', String(LOCAL_CHAIN_ID)], {
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let output = '';
+  let exited: string | null = null;
+  child.stdout.setEncoding('utf8').on('data', (chunk: string) => {
+    output += chunk;
+  });
+  child.stderr.setEncoding('utf8').on('data', (chunk: string) => {
+    output += chunk;
+    onOutput?.('stderr', chunk);
+  });
+  child.on('error', (error) => {
+    exited = error.message;
+  });
+  child.on('exit', (code) => {
+    exited ??= `anvil exited with code ${code}`;
+  });
+
+  const stop = () => {
+    if (child.exitCode === null && !child.killed) child.kill();
+  };
+
+  const deadline = Date.now() + ANVIL_START_TIMEOUT_MS;
+  while (!(await rpcReady(rpcUrl))) {
+    if (exited || Date.now() > deadline) {
+      stop();
+      throw new Error(`Local anvil node failed to start: ${exited ?? 'timed out'}\n${output}`.trim());
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  onOutput?.('stdout', `anvil: listening on ${rpcUrl} (chain ${LOCAL_CHAIN_ID})\n`);
+
+  return { rpcUrl, chainId: LOCAL_CHAIN_ID, privateKey: ANVIL_DEV_PRIVATE_KEY, address: ANVIL_DEV_ADDRESS, stop };
+}
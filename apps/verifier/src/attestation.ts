@@ -0,0 +1,28 @@
+import { Wallet } from 'ethers';
+import {
+  signChallengeResult,
+  signVerificationAttestation,
+  type ChallengeResultMessage,
+  type SignedChallengeResult,
+  type SignedVerificationAttestation,
+  type VerificationAttestationMessage,
+} from '@v4shm/shared';
+
+function signingKey(): string {
+  const key = process.env.VERIFIER_PRIVATE_KEY?.trim();
+  if (!key) throw new Error('Missing VERIFIER_PRIVATE_KEY');
+  return key.startsWith('0x') ? key : `0x${key}`;
+}
+
+// The API only pays milestones attested by this address (its VERIFIER_ADDRESS).
+export function attestationSigner(): string {
+  return new Wallet(signingKey()).address;
+}
+
+export async function attest(message: VerificationAttestationMessage): Promise<SignedVerificationAttestation> {
+  return { message, signature: await signVerificationAttestation(message, signingKey()) };
+}
+
+export async function attestChallengeResult(message: ChallengeResultMessage): Promise<SignedChallengeResult> {
+  return { message, signature: await signChallengeResult(message, signingKey()) };
+}
@@ -0,0 +1,65 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../');
+const dataDir = process.env.V4SHM_DATA_DIR
+  ? path.resolve(repoRoot, process.env.V4SHM_DATA_DIR)
+  : path.join(repoRoot, 'data');
+
+const cacheDir = path.join(dataDir, 'cache');
+
+fs.mkdirSync(cacheDir, { recursive: true });
+
+// Offchain stages whose outcome depends only on the cache key. Onchain proof stages always re-run.
+export type CacheableStage = 'build' | 'test';
+
+type CacheEntry = {
+  key: string;
+  stages: Partial<Record<CacheableStage, { log: string; cachedAt: number }>>;
+};
+
+function sha256(input: string | Buffer) {
+  return `0x${createHash('sha256').update(input).digest('hex')}`;
+}
+
+export function fileContentHash(filePath: string) {
+  return sha256(fs.readFileSync(filePath));
+}
+
+// The forge args are part of the key, so a stage run with other flags (say `--gas-report`) is not reused.
+export function verificationCacheKey(input: {
+  contentHash: string;
+  harnessHash: string;
+  templateType: string;
+  env: Record<string, string>;
+  forgeArgs: Record<CacheableStage, string[]>;
+}) {
+  const env = Object.entries(input.env).sort(([a], [b]) => a.localeCompare(b));
+  const forgeArgs = [input.forgeArgs.build, input.forgeArgs.test];
+  return sha256(JSON.stringify([input.contentHash, input.harnessHash, input.templateType, env, forgeArgs]));
+}
+
+function entryPath(key: string) {
+  return path.join(cacheDir, `${key}.json`);
+}
+
+function readEntry(key: string): CacheEntry {
+  try {
+    return JSON.parse(fs.readFileSync(entryPath(key), 'utf8')) as CacheEntry;
+  } catch {
+    return { key, stages: {} };
+  }
+}
+
+// Only passing stages are cached, so a failure caused by the environment is retried on the next run.
+export function readCachedStage(key: string, stage: CacheableStage) {
+  return readEntry(key).stages[stage] ?? null;
+}
+
+export function writeCachedStage(key: string, stage: CacheableStage, log: string) {
+  const entry = readEntry(key);
+  entry.stages[stage] = { log, cachedAt: Date.now() };
+  fs.writeFileSync(entryPath(key), JSON.stringify(entry, null, 2), 'utf8');
+}
@@ -0,0 +1,96 @@
+import type { ContractGasReport, ProofGasBreakdown } from '@v4shm/shared';
+
+// forge-std's CREATE2 factory, which V4Proof.s.sol deploys the hook adapter through.
+const CREATE2_FACTORY = '0x4e59b44847b379578588920ca78fbf26c0b4956c';
+// Contracts the proof script deploys around the hook; their deployments are not the hook's cost.
+const SCAFFOLDING_CONTRACTS = new Set(['MockERC20', 'PoolModifyLiquidityTest', 'PoolSwapTest']);
+
+export function emptyProofGas(): ProofGasBreakdown {
+  return { deploy: null, initialize: null, addLiquidity: null, swap: null, negativeSwap: null };
+}
+
+function proofStep(tx: any): keyof ProofGasBreakdown | null {
+  const fn = String(tx.function ?? '');
+  if (fn.startsWith('initialize(')) return 'initialize';
+  if (fn.startsWith('modifyLiquidity(')) return 'addLiquidity';
+  if (fn.startsWith('swap(')) return 'swap';
+  if ((tx.transactionType === 'CREATE' || tx.transactionType === 'CREATE2') && !SCAFFOLDING_CONTRACTS.has(tx.contractName)) {
+    return 'deploy';
+  }
+  if (!fn && String(tx.transaction?.to ?? '').toLowerCase() === CREATE2_FACTORY) return 'deploy';
+  return null;
+}
+
+// Reads V4Proof.s.sol's broadcast artifact (`run-latest.json`). Deployments are summed; liquidity and swap
+// take the first transaction, as the agent loop that follows depends on V4_AGENT_STEPS.
+export function proofGasFromBroadcast(broadcast: any): Omit<ProofGasBreakdown, 'negativeSwap'> {
+  const gasByHash = new Map<string, bigint>();
+  for (const receipt of broadcast?.receipts ?? []) {
+    if (receipt?.transactionHash && receipt.gasUsed !== undefined) {
+      gasByHash.set(String(receipt.transactionHash).toLowerCase(), BigInt(receipt.gasUsed));
+    }
+  }
+
+  const totals: Partial<Record<keyof ProofGasBreakdown, bigint>> = {};
+  for (const tx of broadcast?.transactions ?? []) {
+    const step = proofStep(tx);
+    const gasUsed = tx?.hash ? gasByHash.get(String(tx.hash).toLowerCase()) : undefined;
+    if (!step || gasUsed === undefined) continue;
+    if (step === 'deploy') totals.deploy = (totals.deploy ?? 0n) + gasUsed;
+    else totals[step] ??= gasUsed;
+  }
+  return {
+    deploy: totals.deploy?.toString() ?? null,
+    initialize: totals.initialize?.toString() ?? null,
+    addLiquidity: totals.addLiquidity?.toString() ?? null,
+    swap: totals.swap?.toString() ?? null,
+  };
+}
+
+function isGasNumber(cell: string) {
+  return /^\d[\d,]*$/.test(cell);
+}
+
+function gasNumber(cell: string) {
+  return Number(cell.replace(/,/g, ''));
+}
+
+// Parses the tables `forge test --gas-report` prints, in both the ASCII (`|`) and box-drawing (`│`) styles.
+export function parseGasReport(output: string): ContractGasReport[] {
+  const reports: ContractGasReport[] = [];
+  let current: ContractGasReport | null = null;
+  let expecting: 'deployment' | 'functions' | null = null;
+
+  for (const line of output.split('\n')) {
+    const trimmed = line.trim();
+    if (!/^[|│]/.test(trimmed)) continue;
+    const cells = trimmed.replace(/^[|│]|[|│]$/g, '').split(/[|│]/).map((cell) => cell.trim());
+    const [first = ''] = cells;
+
+    const contract = /^(.+)\s+contract$/i.exec(first);
+    if (contract && cells.slice(1).every((cell) => cell === '')) {
+      current = { contract: contract[1], deploymentGas: null, functions: [] };
+      reports.push(current);
+      expecting = null;
+      continue;
+    }
+    if (!current) continue;
+    if (/^deployment cost$/i.test(first)) {
+      expecting = 'deployment';
+      continue;
+    }
+    if (/^function name$/i.test(first)) {
+      expecting = 'functions';
+      continue;
+    }
+
+    if (expecting === 'deployment' && isGasNumber(first)) {
+      current.deploymentGas = gasNumber(first);
+      expecting = null;
+    } else if (expecting === 'functions' && first && cells.length >= 6 && cells.slice(1, 6).every(isGasNumber)) {
+      const [min, avg, median, max, calls] = cells.slice(1, 6).map(gasNumber);
+      current.functions.push({ name: first, calls, min, avg, median, max });
+    }
+  }
+  return reports;
+}
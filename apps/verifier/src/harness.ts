@@ -0,0 +1,68 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { spawnSync } from 'node:child_process';
+
+export type HarnessIdentity = {
+  // Last git commit touching the harness, with `+dirty` for uncommitted edits; informational only.
+  version: string | null;
+  hash: string;
+};
+
+// Dependencies are hashed by their pinned commits instead of their contents; build outputs are skipped.
+const IGNORED_DIRS = new Set(['lib', 'out', 'cache', 'broadcast']);
+
+function git(args: string[], cwd: string) {
+  const result = spawnSync('git', args, { cwd, encoding: 'utf8' });
+  return result.status === 0 ? result.stdout.trim() : null;
+}
+
+function listSourceFiles(root: string, dir = root): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      if (dir === root && IGNORED_DIRS.has(entry.name)) continue;
+      files.push(...listSourceFiles(root, path.join(dir, entry.name)));
+    } else if (entry.isFile()) {
+      files.push(path.relative(root, path.join(dir, entry.name)));
+    }
+  }
+  return files.sort();
+}
+
+// Each `lib/<name>` checkout with its HEAD and nested submodule commits. Dependencies that are not
+// git checkouts are recorded as unpinned.
+function pinnedDependencies(harnessDir: string): string[] {
+  const libDir = path.join(harnessDir, 'lib');
+  if (!fs.existsSync(libDir)) return [];
+  return fs
+    .readdirSync(libDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort()
+    .map((name) => {
+      const depDir = path.join(libDir, name);
+      const head = git(['rev-parse', 'HEAD'], depDir) ?? 'unpinned';
+      const submodules = git(['submodule', 'status', '--recursive'], depDir) ?? '';
+      return `lib/${name}@${head}\n${submodules}`;
+    });
+}
+
+export function harnessIdentity(harnessDir: string): HarnessIdentity {
+  const hash = createHash('sha256');
+  for (const file of listSourceFiles(harnessDir)) {
+    hash.update(`${file}\0`);
+    hash.update(fs.readFileSync(path.join(harnessDir, file)));
+    hash.update('\0');
+  }
+  for (const dependency of pinnedDependencies(harnessDir)) {
+    hash.update(`${dependency}\0`);
+  }
+
+  const commit = git(['log', '-1', '--format=%h', '--', '.'], harnessDir);
+  const dirty = git(['status', '--porcelain', '--untracked-files=no', '--', '.'], harnessDir);
+  return {
+    version: commit ? `${commit}${dirty ? '+dirty' : ''}` : null,
+    hash: `0x${hash.digest('hex')}`,
+  };
+}
@@ -1,5 +1,10 @@
 import Fastify from 'fastify';
-import { runVerification, runChallenge } from './runner.js';
+import websocket from '@fastify/websocket';
+import { harnessRoot, runVerification, runChallenge, type VerifierMode } from './runner.js';
+import { createJobQueue, createJobStore } from './jobs.js';
+import { harnessIdentity } from './harness.js';
+import { attestationSigner } from './attestation.js';
+import { LIMITED_STAGES, stageLimits, type LimitedStage, type StageLimits } from './limits.js';
 
 const quietLogs = process.env.V4SHM_QUIET_LOGS === 'true';
 const server = Fastify({
@@ -7,9 +12,66 @@ const server = Fastify({
   disableRequestLogging: quietLogs,
 });
 
-const mode = (process.env.VERIFIER_MODE ?? 'mock') as 'mock' | 'real';
+const mode: VerifierMode =
+  process.env.VERIFIER_MODE === 'real' || process.env.VERIFIER_MODE === 'local' ? process.env.VERIFIER_MODE : 'mock';
+const concurrency = Math.max(1, Number(process.env.VERIFIER_CONCURRENCY ?? 1) || 1);
 
-server.get('/health', async () => ({ ok: true, mode }));
+// Every report is signed; there is no unsigned mode.
+let signer: string;
+try {
+  signer = attestationSigner();
+} catch (err) {
+  console.error(`Cannot sign verification reports: ${String((err as any)?.message ?? err)}`);
+  process.exit(1);
+}
+
+// Stage limits are read per run, so a bad value would otherwise only surface as a crashed job.
+let limits: Record<LimitedStage, StageLimits>;
+try {
+  limits = Object.fromEntries(LIMITED_STAGES.map((stage) => [stage, stageLimits(stage)])) as Record<LimitedStage, StageLimits>;
+} catch (err) {
+  console.error(`Invalid verifier limits: ${String((err as any)?.message ?? err)}`);
+  process.exit(1);
+}
+
+const jobs = createJobQueue({
+  store: createJobStore(),
+  concurrency,
+  run: (input, hooks) => runVerification({ ...input, mode, ...hooks }),
+  onError: (err, message) => server.log.warn(err, message),
+});
+
+await server.register(websocket);
+
+server.get('/health', async () => ({ ok: true, mode, concurrency, signer, limits }));
+
+// The harness new work orders are pinned to; runs for a work order pinned to another hash fail.
+server.get('/harness', async () => harnessIdentity(harnessRoot));
+
+server.post('/jobs', async (request, reply) => {
+  const body = request.body as {
+    workOrder: any;
+    submission: any;
+    callbackUrl?: string;
+  };
+
+  if (!body?.workOrder?.id || !body?.submission?.id) {
+    return reply.status(400).send({ error: 'Missing work order or submission' });
+  }
+
+  const job = jobs.enqueue(
+    { workOrder: body.workOrder, submission: body.submission },
+    typeof body.callbackUrl === 'string' ? body.callbackUrl : null
+  );
+  return reply.status(202).send(job);
+});
+
+server.get('/jobs/:id', async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const job = jobs.getJob(id);
+  if (!job) return reply.status(404).send({ error: 'Job not found' });
+  return job;
+});
 
 server.post('/verify', async (request, reply) => {
   const body = request.body as {
@@ -50,11 +112,36 @@ server.post('/challenge', async (_request, reply) => {
   return reply.status(200).send(result);
 });
 
+// Streams a job's forge output as `{ type: 'log', ...entry }` messages, then `{ type: 'end', status }`.
+// `?after=<seq>` skips the entries a reconnecting client has already seen.
+server.get('/jobs/:id/logs', { websocket: true }, (connection, request) => {
+  const { id } = request.params as { id: string };
+  const { after } = request.query as { after?: string };
+  const socket = (connection as any).socket ?? connection;
+  if (!jobs.getJob(id)) {
+    socket.send(JSON.stringify({ type: 'error', error: 'Job not found' }));
+    socket.close();
+    return;
+  }
+  const unsubscribe = jobs.subscribeLogs(id, {
+    onLog: (entry) => socket.send(JSON.stringify({ type: 'log', ...entry })),
+    onEnd: (job) => {
+      socket.send(JSON.stringify({ type: 'end', status: job.status }));
+      socket.close();
+    },
+  }, Math.max(0, Number(after) || 0));
+
+  socket.on('close', () => {
+    unsubscribe();
+  });
+});
+
 const port = Number(process.env.PORT ?? 3002);
 const host = process.env.HOST ?? '0.0.0.0';
 
 server
   .listen({ port, host })
+  .then(() => jobs.resume())
   .catch((err) => {
     server.log.error(err, 'failed to start verifier');
     process.exit(1);
@@ -0,0 +1,254 @@
+import { DatabaseSync } from 'node:sqlite';
+import fs from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import type {
+  SignedVerificationAttestation,
+  SubmissionPayload,
+  VerificationJob,
+  VerificationJobStatus,
+  VerificationLogEntry,
+  VerificationResult,
+  VerificationStage,
+  WorkOrder,
+} from '@v4shm/shared';
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../');
+const dataDir = process.env.V4SHM_DATA_DIR
+  ? path.resolve(repoRoot, process.env.V4SHM_DATA_DIR)
+  : path.join(repoRoot, 'data');
+
+fs.mkdirSync(dataDir, { recursive: true });
+
+const dbPath = path.join(dataDir, 'verifier.sqlite');
+
+export type VerificationJobInput = {
+  workOrder: WorkOrder;
+  submission: SubmissionPayload;
+};
+
+type JobStore = ReturnType<typeof createJobStore>;
+
+type LogSubscriber = {
+  onLog: (entry: VerificationLogEntry) => void;
+  onEnd: (job: VerificationJob) => void;
+};
+
+// Log output is kept in memory only: the tail of each job is replayed to late subscribers, and
+// tails are kept for a few finished jobs so a subscriber that connects just after a fast run still
+// sees its output. Full logs are in the report.
+const MAX_LOG_TAIL_ENTRIES = 500;
+const MAX_RETAINED_LOG_TAILS = 20;
+
+export function createJobStore() {
+  const db = new DatabaseSync(dbPath);
+  db.exec('PRAGMA busy_timeout = 5000;');
+  db.exec('PRAGMA journal_mode = WAL;');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS verification_jobs (
+      id TEXT PRIMARY KEY,
+      created_at INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      job_json TEXT NOT NULL,
+      input_json TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS verification_jobs_status_idx
+      ON verification_jobs(status, created_at);
+  `);
+
+  const insertJobStmt = db.prepare(
+    'INSERT INTO verification_jobs (id, created_at, status, job_json, input_json) VALUES (?, ?, ?, ?, ?)'
+  );
+  const updateJobStmt = db.prepare('UPDATE verification_jobs SET status = ?, job_json = ? WHERE id = ?');
+  const getJobStmt = db.prepare('SELECT job_json FROM verification_jobs WHERE id = ?');
+  const getJobInputStmt = db.prepare('SELECT input_json FROM verification_jobs WHERE id = ?');
+  const listJobsByStatusStmt = db.prepare(
+    'SELECT job_json FROM verification_jobs WHERE status = ? ORDER BY created_at ASC, rowid ASC'
+  );
+
+  return {
+    insertJob(job: VerificationJob, input: VerificationJobInput) {
+      insertJobStmt.run(job.id, job.createdAt, job.status, JSON.stringify(job), JSON.stringify(input));
+    },
+    updateJob(job: VerificationJob) {
+      updateJobStmt.run(job.status, JSON.stringify(job), job.id);
+    },
+    getJob(id: string): VerificationJob | null {
+      const row = getJobStmt.get(id) as { job_json: string } | undefined;
+      return row ? (JSON.parse(row.job_json) as VerificationJob) : null;
+    },
+    getJobInput(id: string): VerificationJobInput | null {
+      const row = getJobInputStmt.get(id) as { input_json: string } | undefined;
+      return row ? (JSON.parse(row.input_json) as VerificationJobInput) : null;
+    },
+    listJobs(status: VerificationJobStatus): VerificationJob[] {
+      const rows = listJobsByStatusStmt.all(status) as Array<{ job_json: string }>;
+      return rows.map((row) => JSON.parse(row.job_json) as VerificationJob);
+    },
+  };
+}
+
+// Runs persisted verification jobs with at most `concurrency` in flight. The API is told about
+// progress through the job's callback URL; it re-reads the job with `GET /jobs/:id` rather than
+// trusting the callback body.
+export function createJobQueue(options: {
+  store: JobStore;
+  concurrency: number;
+  run: (
+    input: VerificationJobInput,
+    hooks: {
+      onProgress: (stage: VerificationStage) => void;
+      onMilestone: (milestoneKey: string, attestation: SignedVerificationAttestation) => void;
+      onLog: (entry: Omit<VerificationLogEntry, 'seq'>) => void;
+    }
+  ) => Promise<VerificationResult>;
+  onError: (error: unknown, message: string) => void;
+}) {
+  const { store } = options;
+  let active = 0;
+  const logTails = new Map<string, VerificationLogEntry[]>();
+  const logSeqs = new Map<string, number>();
+  const logSubscribers = new Map<string, Set<LogSubscriber>>();
+
+  function appendLog(jobId: string, output: Omit<VerificationLogEntry, 'seq'>) {
+    const seq = (logSeqs.get(jobId) ?? 0) + 1;
+    logSeqs.set(jobId, seq);
+    const entry: VerificationLogEntry = { ...output, seq };
+    const tail = logTails.get(jobId) ?? [];
+    tail.push(entry);
+    if (tail.length > MAX_LOG_TAIL_ENTRIES) tail.splice(0, tail.length - MAX_LOG_TAIL_ENTRIES);
+    logTails.set(jobId, tail);
+    for (const subscriber of logSubscribers.get(jobId) ?? []) subscriber.onLog(entry);
+  }
+
+  function endLogs(job: VerificationJob) {
+    for (const subscriber of logSubscribers.get(job.id) ?? []) subscriber.onEnd(job);
+    logSubscribers.delete(job.id);
+    // Map iteration follows insertion order, so the first keys belong to the oldest jobs.
+    for (const jobId of logTails.keys()) {
+      if (logTails.size <= MAX_RETAINED_LOG_TAILS) break;
+      if (!store.getJob(jobId)?.finishedAt) continue;
+      logTails.delete(jobId);
+      logSeqs.delete(jobId);
+    }
+  }
+
+  function notify(job: VerificationJob) {
+    if (!job.callbackUrl) return;
+    fetch(job.callbackUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jobId: job.id, status: job.status, stage: job.stage }),
+      signal: AbortSignal.timeout(5000),
+    }).catch((error) => options.onError(error, `job callback failed for ${job.id}`));
+  }
+
+  async function work(job: VerificationJob) {
+    const input = store.getJobInput(job.id);
+    try {
+      if (!input) throw new Error('Job input missing');
+      job.result = await options.run(input, {
+        onProgress: (stage) => {
+          job.stage = stage;
+          store.updateJob(job);
+          notify(job);
+        },
+        onMilestone: (milestoneKey, attestation) => {
+          job.milestonesPassed.push(milestoneKey);
+          job.attestation = attestation;
+          store.updateJob(job);
+          notify(job);
+        },
+        onLog: (entry) => appendLog(job.id, entry),
+      });
+      job.status = 'SUCCEEDED';
+    } catch (error) {
+      job.status = 'FAILED';
+      job.error = String((error as any)?.message ?? error);
+    }
+    job.finishedAt = Date.now();
+    store.updateJob(job);
+    notify(job);
+    endLogs(job);
+  }
+
+  function pump() {
+    while (active < options.concurrency) {
+      const [next] = store.listJobs('QUEUED');
+      if (!next) return;
+      next.status = 'RUNNING';
+      next.startedAt = Date.now();
+      store.updateJob(next);
+      notify(next);
+      active += 1;
+      void work(next).finally(() => {
+        active -= 1;
+        pump();
+      });
+    }
+  }
+
+  return {
+    enqueue(input: VerificationJobInput, callbackUrl: string | null): VerificationJob {
+      const job: VerificationJob = {
+        id: randomUUID(),
+        workOrderId: input.workOrder.id,
+        submissionId: input.submission.id,
+        status: 'QUEUED',
+        stage: null,
+        milestonesPassed: [],
+        attestation: null,
+        callbackUrl,
+        result: null,
+        error: null,
+        createdAt: Date.now(),
+        startedAt: null,
+        finishedAt: null,
+      };
+      store.insertJob(job, input);
+      pump();
+      return store.getJob(job.id) ?? job;
+    },
+    getJob(id: string) {
+      return store.getJob(id);
+    },
+    // Replays the retained tail after `afterSeq` (the last entry a reconnecting subscriber saw), then
+    // streams new output until the job finishes.
+    subscribeLogs(jobId: string, subscriber: LogSubscriber, afterSeq = 0) {
+      // A position past the latest entry comes from a run before a verifier restart.
+      const after = afterSeq > (logSeqs.get(jobId) ?? 0) ? 0 : afterSeq;
+      for (const entry of logTails.get(jobId) ?? []) {
+        if (entry.seq > after) subscriber.onLog(entry);
+      }
+      const job = store.getJob(jobId);
+      if (!job || job.finishedAt) {
+        if (job) subscriber.onEnd(job);
+        return () => {};
+      }
+      const subscribers = logSubscribers.get(jobId) ?? new Set();
+      subscribers.add(subscriber);
+      logSubscribers.set(jobId, subscribers);
+      return () => {
+        subscribers.delete(subscriber);
+        if (subscribers.size === 0) logSubscribers.delete(jobId);
+      };
+    },
+    // Jobs left RUNNING by a previous process never finished; run them again from the start.
+    resume() {
+      for (const job of store.listJobs('RUNNING')) {
+        job.status = 'QUEUED';
+        job.stage = null;
+        job.milestonesPassed = [];
+        job.attestation = null;
+        job.startedAt = null;
+        logTails.delete(job.id);
+        logSeqs.delete(job.id);
+        store.updateJob(job);
+      }
+      pump();
+    },
+  };
+}
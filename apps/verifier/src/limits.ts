@@ -0,0 +1,78 @@
+import fs from 'node:fs';
+import { spawnSync } from 'node:child_process';
+
+export type LimitedStage = 'build' | 'test' | 'script' | 'challenge';
+
+export const LIMITED_STAGES: LimitedStage[] = ['build', 'test', 'script', 'challenge'];
+
+export type StageLimits = {
+  timeoutMs: number;
+  memoryMb: number;
+  // Docker caps the container at this many cores; on the host the run may use `cpus * timeout` of CPU time.
+  cpus: number;
+  // Combined stdout and stderr.
+  maxOutputBytes: number;
+};
+
+const DEFAULT_LIMITS: StageLimits = {
+  timeoutMs: 10 * 60 * 1000,
+  memoryMb: 4096,
+  cpus: 2,
+  maxOutputBytes: 8 * 1024 * 1024,
+};
+
+const LIMIT_ENV_SUFFIX: Record<keyof StageLimits, string> = {
+  timeoutMs: 'TIMEOUT_MS',
+  memoryMb: 'MEMORY_MB',
+  cpus: 'CPUS',
+  maxOutputBytes: 'OUTPUT_BYTES',
+};
+
+// Each limit comes from `VERIFIER_<STAGE>_<LIMIT>`, then `VERIFIER_<LIMIT>`, then the default.
+export function stageLimits(stage: LimitedStage, env: NodeJS.ProcessEnv = process.env): StageLimits {
+  const limits = { ...DEFAULT_LIMITS };
+  for (const [key, suffix] of Object.entries(LIMIT_ENV_SUFFIX) as Array<[keyof StageLimits, string]>) {
+    const name = [`VERIFIER_${stage.toUpperCase()}_${suffix}`, `VERIFIER_${suffix}`].find((candidate) => env[candidate]);
+    if (!name) continue;
+    const value = Number(env[name]);
+    if (!Number.isFinite(value) || value <= 0) throw new Error(`${name} must be a positive number`);
+    limits[key] = value;
+  }
+  return limits;
+}
+
+let procUnits: { ticksPerSecond: number; pageBytes: number } | null = null;
+
+function getconf(name: string, fallback: number) {
+  const result = spawnSync('getconf', [name], { encoding: 'utf8' });
+  return Number(result.stdout?.trim()) || fallback;
+}
+
+// Resident memory and CPU time of every live process in a host process group (forge and the solc
+// processes it starts), read from /proc. Null where /proc is unavailable.
+export function sampleProcessGroup(pgid: number): { rssMb: number; cpuSeconds: number } | null {
+  let pids: string[];
+  try {
+    pids = fs.readdirSync('/proc').filter((entry) => /^\d+$/.test(entry));
+  } catch {
+    return null;
+  }
+  procUnits ??= { ticksPerSecond: getconf('CLK_TCK', 100), pageBytes: getconf('PAGESIZE', 4096) };
+  let rssBytes = 0;
+  let ticks = 0;
+  for (const pid of pids) {
+    let stat: string;
+    try {
+      stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+    } catch {
+      continue;
+    }
+    // Fields after the parenthesised command name: pgrp is the 3rd, utime and stime the 12th and 13th,
+    // rss (in pages) the 22nd.
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    if (Number(fields[2]) !== pgid) continue;
+    ticks += Number(fields[11]) + Number(fields[12]);
+    rssBytes += Number(fields[21]) * procUnits.pageBytes;
+  }
+  return { rssMb: rssBytes / (1024 * 1024), cpuSeconds: ticks / procUnits.ticksPerSecond };
+}
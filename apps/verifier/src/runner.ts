@@ -2,11 +2,46 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { randomUUID } from 'node:crypto';
 import { fileURLToPath } from 'node:url';
-import { spawnSync } from 'node:child_process';
+import { spawn, spawnSync } from 'node:child_process';
 import { createPublicClient, decodeEventLog, http, parseAbiItem, type Hex } from 'viem';
-import { baseSepolia } from 'viem/chains';
+import { baseSepolia, foundry } from 'viem/chains';
 import { runMockV4Proof } from '@v4shm/uniswap-client';
-import type { ChallengePayload, SubmissionPayload, VerificationReport, WorkOrder } from '@v4shm/shared';
+import {
+  HOOK_TEMPLATES,
+  getHookTemplate,
+  reportAttestationMessage,
+  templateEnv,
+  templateParamEnvKeys,
+  verificationTxIdsRoot,
+} from '@v4shm/shared';
+import type {
+  ChallengePayload,
+  ChallengeResult,
+  HookTemplateDefinition,
+  SignedVerificationAttestation,
+  SubmissionPayload,
+  VerificationFailure,
+  VerificationFailureBlame,
+  VerificationFailureCode,
+  VerificationGasMetrics,
+  VerificationLogEntry,
+  VerificationReport,
+  VerificationResult,
+  VerificationStage,
+  WorkOrder,
+} from '@v4shm/shared';
+import {
+  fileContentHash,
+  readCachedStage,
+  verificationCacheKey,
+  writeCachedStage,
+  type CacheableStage,
+} from './cache.js';
+import { harnessIdentity, type HarnessIdentity } from './harness.js';
+import { attest, attestChallengeResult } from './attestation.js';
+import { LOCAL_CHAIN_ID, startLocalChain } from './anvil.js';
+import { sampleProcessGroup, stageLimits, type LimitedStage, type StageLimits } from './limits.js';
+import { emptyProofGas, parseGasReport, proofGasFromBroadcast } from './gas.js';
 
 const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../');
 const dataDir = process.env.V4SHM_DATA_DIR
@@ -16,21 +51,178 @@ const dataDir = process.env.V4SHM_DATA_DIR
 const reportsDir = path.join(dataDir, 'reports');
 const logsDir = path.join(dataDir, 'logs');
 const runsDir = path.join(dataDir, 'runs');
-const harnessRoot = path.join(repoRoot, 'harness', 'v4-hook-harness');
+export const harnessRoot = path.join(repoRoot, 'harness', 'v4-hook-harness');
 
 fs.mkdirSync(reportsDir, { recursive: true });
 fs.mkdirSync(logsDir, { recursive: true });
 fs.mkdirSync(runsDir, { recursive: true });
 
-type CommandResult = { ok: boolean; output: string; error?: Error };
+// `local` runs the proof scripts against a throwaway anvil node instead of Base Sepolia.
+export type VerifierMode = 'mock' | 'real' | 'local';
+
+// `limit` is set when the run was stopped for exceeding one of its stage limits.
+type CommandResult = { ok: boolean; output: string; error?: Error; limit?: LimitExceeded };
+type LimitExceeded = { code: 'TIMEOUT' | 'RESOURCE_LIMIT'; message: string };
+
+// Who each failure is blamed on. The API retries infrastructure failures without touching the solver's
+// stats, and spec failures would fail any delivery, so neither counts against the solver.
+const FAILURE_ATTRIBUTION: Record<VerificationFailureCode, { blame: VerificationFailureBlame; retryable: boolean }> = {
+  HARNESS_MISMATCH: { blame: 'infrastructure', retryable: true },
+  HARNESS_DEPS_MISSING: { blame: 'infrastructure', retryable: true },
+  TOOLCHAIN_UNAVAILABLE: { blame: 'infrastructure', retryable: true },
+  PROOF_CONFIG_MISSING: { blame: 'infrastructure', retryable: true },
+  LOCAL_CHAIN_FAILED: { blame: 'infrastructure', retryable: true },
+  RPC_UNAVAILABLE: { blame: 'infrastructure', retryable: true },
+  NEGATIVE_PROOF_MISSING: { blame: 'infrastructure', retryable: true },
+  UNKNOWN_TEMPLATE: { blame: 'spec', retryable: false },
+  TEMPLATE_PARAMS_INVALID: { blame: 'spec', retryable: false },
+  // A remote repo may only be briefly unreachable, but pointing at it was the solver's call.
+  ARTIFACT_UNAVAILABLE: { blame: 'solver', retryable: true },
+  ARTIFACT_INVALID: { blame: 'solver', retryable: false },
+  BUILD_FAILED: { blame: 'solver', retryable: false },
+  TESTS_FAILED: { blame: 'solver', retryable: false },
+  PROOF_SCRIPT_FAILED: { blame: 'solver', retryable: false },
+  NEGATIVE_PROOF_NOT_ENFORCED: { blame: 'solver', retryable: false },
+  NEGATIVE_PROOF_WRONG_REASON: { blame: 'solver', retryable: false },
+  // The limits are generous for honest hooks; rerunning one that hangs would only hold the verifier longer.
+  TIMEOUT: { blame: 'solver', retryable: false },
+  RESOURCE_LIMIT: { blame: 'solver', retryable: false },
+};
+
+function verificationFailure(
+  stage: VerificationStage,
+  code: VerificationFailureCode,
+  message: string
+): VerificationFailure {
+  return { stage, code, ...FAILURE_ATTRIBUTION[code], message };
+}
+
+// Thrown by setup steps so that the run still ends in a FAIL report carrying the failure.
+class VerificationFailureError extends Error {
+  readonly failure: VerificationFailure;
+
+  constructor(failure: VerificationFailure) {
+    super(failure.message);
+    this.name = 'VerificationFailureError';
+    this.failure = failure;
+  }
+}
 
-function runCommand(cmd: string, args: string[], cwd: string, env: NodeJS.ProcessEnv): CommandResult {
-  const result = spawnSync(cmd, args, { cwd, env, encoding: 'utf8' });
-  const output = `${result.stdout ?? ''}${result.stderr ?? ''}`.trim();
-  if (result.error) {
-    return { ok: false, output, error: result.error as Error };
+// forge's wording for RPC trouble (including an unfunded deployer key).
+const RPC_FAILURE_PATTERN = /error sending request|connection refused|failed to get chain id|timed out|too many requests|rate limit|insufficient funds/i;
+
+// A forge (or docker) that never started, or a script that could not reach the RPC, is on the verifier;
+// a run stopped at its limits is on the hook, and anything else is `code`.
+function forgeFailure(
+  stage: VerificationStage,
+  result: CommandResult,
+  code: VerificationFailureCode,
+  message: string
+): VerificationFailure {
+  if (result.limit) return verificationFailure(stage, result.limit.code, `${message}: ${result.limit.message}`);
+  if (result.error) return verificationFailure(stage, 'TOOLCHAIN_UNAVAILABLE', result.error.message);
+  if ((stage === 'proof' || stage === 'negative_proof') && RPC_FAILURE_PATTERN.test(result.output)) {
+    return verificationFailure(stage, 'RPC_UNAVAILABLE', `${message}: RPC unavailable`);
   }
-  return { ok: result.status === 0, output };
+  return verificationFailure(stage, code, message);
+}
+
+const MISSING_V4_CORE_MESSAGE = 'Missing v4-core dependency. From `harness/v4-hook-harness`: run `forge install uniswap/v4-core --no-commit` then `git -C lib/v4-core submodule update --init --recursive`.';
+type OutputHandler = (stream: 'stdout' | 'stderr', chunk: string) => void;
+
+type CommandOptions = {
+  onOutput?: OutputHandler;
+  limits?: StageLimits;
+  // Runs the child in its own process group, which is killed as a whole and sampled against the memory
+  // and CPU limits. Docker enforces those itself.
+  hostProcessGroup?: boolean;
+  // Stops the run once a limit is exceeded. Defaults to killing the child.
+  stop?: () => void;
+  // Names the limit a process died of, judging by how it exited.
+  exitLimit?: (code: number | null, signal: NodeJS.Signals | null, output: string) => LimitExceeded | null;
+};
+
+const RESOURCE_SAMPLE_MS = 1000;
+
+// Async so forge runs don't block the job queue or the HTTP server.
+function runCommand(
+  cmd: string,
+  args: string[],
+  cwd: string,
+  env: NodeJS.ProcessEnv,
+  options: CommandOptions = {}
+): Promise<CommandResult> {
+  return new Promise((resolve) => {
+    const child = spawn(cmd, args, { cwd, env, detached: options.hostProcessGroup });
+    const { limits } = options;
+    let stdout = '';
+    let stderr = '';
+    let outputBytes = 0;
+    let exceeded: LimitExceeded | null = null;
+    const timers: NodeJS.Timeout[] = [];
+
+    const stopFor = (limit: LimitExceeded) => {
+      if (exceeded) return;
+      exceeded = limit;
+      if (options.stop) {
+        options.stop();
+      } else if (options.hostProcessGroup && child.pid) {
+        // Children such as solc would otherwise keep the output pipes, and the run, open.
+        try {
+          process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          child.kill('SIGKILL');
+        }
+      } else {
+        child.kill('SIGKILL');
+      }
+    };
+    if (limits) {
+      timers.push(setTimeout(() => stopFor({ code: 'TIMEOUT', message: `Timed out after ${limits.timeoutMs}ms` }), limits.timeoutMs));
+    }
+    if (limits && options.hostProcessGroup && child.pid) {
+      const pid = child.pid;
+      const cpuBudgetSeconds = (limits.timeoutMs / 1000) * limits.cpus;
+      timers.push(setInterval(() => {
+        const sample = sampleProcessGroup(pid);
+        if (!sample) return;
+        if (sample.rssMb > limits.memoryMb) {
+          stopFor({ code: 'RESOURCE_LIMIT', message: `Memory limit of ${limits.memoryMb}MB exceeded` });
+        } else if (sample.cpuSeconds > cpuBudgetSeconds) {
+          stopFor({ code: 'RESOURCE_LIMIT', message: `CPU time limit of ${cpuBudgetSeconds}s exceeded` });
+        }
+      }, RESOURCE_SAMPLE_MS));
+    }
+
+    const capture = (stream: 'stdout' | 'stderr') => (chunk: string) => {
+      if (exceeded) return;
+      outputBytes += Buffer.byteLength(chunk);
+      if (limits && outputBytes > limits.maxOutputBytes) {
+        stopFor({ code: 'RESOURCE_LIMIT', message: `Output limit of ${limits.maxOutputBytes} bytes exceeded` });
+        return;
+      }
+      if (stream === 'stdout') stdout += chunk;
+      else stderr += chunk;
+      options.onOutput?.(stream, chunk);
+    };
+    child.stdout.setEncoding('utf8').on('data', capture('stdout'));
+    child.stderr.setEncoding('utf8').on('data', capture('stderr'));
+    child.on('error', (error) => {
+      for (const timer of timers) clearTimeout(timer);
+      resolve({ ok: false, output: `${stdout}${stderr}`.trim(), error });
+    });
+    child.on('close', (code, signal) => {
+      for (const timer of timers) clearTimeout(timer);
+      const output = `${stdout}${stderr}`.trim();
+      const limit = exceeded ?? options.exitLimit?.(code, signal, output) ?? null;
+      if (limit) {
+        options.onOutput?.('stderr', `${limit.message}\n`);
+        resolve({ ok: false, output: `${output}\n${limit.message}`.trim(), limit });
+        return;
+      }
+      resolve({ ok: code === 0, output });
+    });
+  });
 }
 
 type VerifierSandboxMode = 'host' | 'docker';
@@ -44,25 +236,59 @@ function dockerAvailable(): boolean {
   return result.status === 0;
 }
 
+// A host forge that runs out of memory aborts with one of these.
+const OUT_OF_MEMORY_PATTERN = /memory allocation of \d+ bytes failed|out of memory/i;
+
 function runForge(
   args: string[],
   cwd: string,
   env: NodeJS.ProcessEnv,
-  options?: { network?: 'none' | 'default' }
-): CommandResult {
+  // `host` lets a sandboxed forge reach the verifier's local anvil node.
+  options: { stage: LimitedStage; network?: 'none' | 'default' | 'host'; onOutput?: OutputHandler }
+): Promise<CommandResult> {
+  const limits = stageLimits(options.stage);
   if (verifierSandbox() !== 'docker') {
-    const forgeBin = resolveForgeBin(env);
-    return runCommand(forgeBin, args, cwd, env);
+    const forgeBin = resolveFoundryBin('forge', env);
+    return runCommand(forgeBin, args, cwd, env, {
+      onOutput: options.onOutput,
+      limits,
+      hostProcessGroup: true,
+      exitLimit: (code, signal, output) =>
+        code !== 0 && OUT_OF_MEMORY_PATTERN.test(output)
+          ? { code: 'RESOURCE_LIMIT', message: `forge ran out of memory${signal ? ` (${signal})` : ''}` }
+          : null,
+    });
   }
 
   if (!dockerAvailable()) {
-    return { ok: false, output: 'docker not found (VERIFIER_SANDBOX=docker)', error: new Error('docker not found') };
+    return Promise.resolve({
+      ok: false,
+      output: 'docker not found (VERIFIER_SANDBOX=docker)',
+      error: new Error('docker not found'),
+    });
   }
 
   const image = process.env.VERIFIER_DOCKER_IMAGE ?? 'ghcr.io/foundry-rs/foundry:latest';
-  const dockerArgs: string[] = ['run', '--rm', '-v', `${cwd}:/work`, '-w', '/work'];
-  if (options?.network === 'none') {
-    dockerArgs.push('--network', 'none');
+  // Named so a run that exceeds its limits can be killed; killing the docker client alone leaves it running.
+  const container = `v4shm-forge-${randomUUID()}`;
+  const dockerArgs: string[] = [
+    'run',
+    '--rm',
+    '--name',
+    container,
+    '--memory',
+    `${limits.memoryMb}m`,
+    '--memory-swap',
+    `${limits.memoryMb}m`,
+    '--cpus',
+    String(limits.cpus),
+    '-v',
+    `${cwd}:/work`,
+    '-w',
+    '/work',
+  ];
+  if (options.network === 'none' || options.network === 'host') {
+    dockerArgs.push('--network', options.network);
   }
 
   // Make sure generated artifacts are readable on the host.
@@ -73,9 +299,7 @@ function runForge(
   // Only pass the small set of env vars the harness needs. Secrets are injected only
   // for the onchain steps (rpc/private-key are passed as forge args, not env vars).
   const passEnvKeys = [
-    'CAP_AMOUNT_IN',
-    'ALLOWLIST_A',
-    'ALLOWLIST_B',
+    ...templateParamEnvKeys(),
     'TEMPLATE_TYPE',
     'POOL_MANAGER',
     'PROOF_OUT',
@@ -93,47 +317,97 @@ function runForge(
   }
 
   dockerArgs.push(image, 'forge', ...args);
-  return runCommand('docker', dockerArgs, cwd, env);
+  return runCommand('docker', dockerArgs, cwd, env, {
+    onOutput: options.onOutput,
+    limits,
+    stop: () => spawn('docker', ['kill', container], { stdio: 'ignore' }).on('error', () => {}),
+    // 137 is SIGKILL, which a container only gets from us (handled above) or the OOM killer.
+    exitLimit: (code) =>
+      code === 137 ? { code: 'RESOURCE_LIMIT', message: `forge was killed for exceeding ${limits.memoryMb}MB of memory` } : null,
+  });
 }
 
-function resolveForgeBin(env: NodeJS.ProcessEnv): string {
-  const explicit = env.FORGE_BIN;
+function resolveFoundryBin(name: 'forge' | 'anvil', env: NodeJS.ProcessEnv): string {
+  const explicit = name === 'forge' ? env.FORGE_BIN : env.ANVIL_BIN;
   if (explicit && fs.existsSync(explicit)) return explicit;
 
   const foundryBin = env.FOUNDRY_BIN;
   if (foundryBin) {
-    const candidate = path.join(foundryBin, 'forge');
+    const candidate = path.join(foundryBin, name);
     if (fs.existsSync(candidate)) return candidate;
   }
 
   const home = env.HOME ?? process.env.HOME;
   const candidates = [
-    home ? path.join(home, '.foundry', 'bin', 'forge') : null,
-    home ? path.join(home, '.config', '.foundry', 'bin', 'forge') : null,
+    home ? path.join(home, '.foundry', 'bin', name) : null,
+    home ? path.join(home, '.config', '.foundry', 'bin', name) : null,
   ].filter(Boolean) as string[];
 
   for (const candidate of candidates) {
     if (fs.existsSync(candidate)) return candidate;
   }
-  return 'forge';
+  return name;
+}
+
+// Deploys v4-core's PoolManager to the local node, built with v4-core's own compiler settings.
+async function deployLocalPoolManager(
+  harnessDir: string,
+  env: NodeJS.ProcessEnv,
+  chain: { rpcUrl: string; privateKey: string; address: string },
+  onOutput: OutputHandler
+): Promise<string> {
+  const result = await runForge(
+    [
+      'create',
+      'src/PoolManager.sol:PoolManager',
+      '--broadcast',
+      '--rpc-url',
+      chain.rpcUrl,
+      '--private-key',
+      chain.privateKey,
+      '--json',
+      '--constructor-args',
+      chain.address,
+    ],
+    path.join(harnessDir, 'lib', 'v4-core'),
+    env,
+    { stage: 'script', network: 'host', onOutput }
+  );
+  const deployedTo = /"deployedTo"\s*:\s*"(0x[a-fA-F0-9]{40})"/.exec(result.output)
+    ?? /Deployed to:\s*(0x[a-fA-F0-9]{40})/.exec(result.output);
+  if (!result.ok || !deployedTo) {
+    throw new Error(`Local PoolManager deployment failed: ${result.error?.message ?? result.output}`);
+  }
+  return deployedTo[1];
 }
 
 function resolveArtifactPath(repoDir: string): string {
   const candidates = [
     path.join(repoDir, 'Hook.sol'),
-    path.join(repoDir, 'SwapCapHook.sol'),
-    path.join(repoDir, 'WhitelistHook.sol'),
+    ...HOOK_TEMPLATES.map((template) => path.join(repoDir, template.harness.hookFile)),
   ];
   for (const candidate of candidates) {
     if (!fs.existsSync(candidate)) continue;
     const stat = fs.lstatSync(candidate);
     if (stat.isSymbolicLink()) {
-      throw new Error(`Hook artifact must not be a symlink: ${candidate}`);
+      throw new VerificationFailureError(
+        verificationFailure('checkout', 'ARTIFACT_INVALID', `Hook artifact must not be a symlink: ${candidate}`)
+      );
     }
     if (!stat.isFile()) continue;
     return candidate;
   }
-  throw new Error('Hook artifact not found at repoUrl');
+  throw new VerificationFailureError(verificationFailure('checkout', 'ARTIFACT_INVALID', 'Hook artifact not found at repoUrl'));
+}
+
+function requireTemplate(workOrder: WorkOrder): HookTemplateDefinition {
+  const template = getHookTemplate(workOrder.templateType);
+  if (!template) {
+    throw new VerificationFailureError(
+      verificationFailure('checkout', 'UNKNOWN_TEMPLATE', `Unknown template type: ${workOrder.templateType}`)
+    );
+  }
+  return template;
 }
 
 function isRemoteRepoUrl(repoUrl: string) {
@@ -146,6 +420,21 @@ function isRemoteRepoUrl(repoUrl: string) {
   );
 }
 
+// Work orders pin the harness they were created against; judging a delivery against an edited
+// harness would silently change the spec.
+function assertHarnessPinned(workOrder: WorkOrder, harness: HarnessIdentity) {
+  const pinned = workOrder.artifacts?.harnessHash;
+  if (pinned && pinned !== harness.hash) {
+    throw new VerificationFailureError(
+      verificationFailure(
+        'checkout',
+        'HARNESS_MISMATCH',
+        `Harness changed since the work order was created (pinned ${pinned}, verifier has ${harness.hash})`
+      )
+    );
+  }
+}
+
 function ensureCleanDir(dir: string) {
   fs.rmSync(dir, { recursive: true, force: true });
   fs.mkdirSync(dir, { recursive: true });
@@ -153,19 +442,23 @@ function ensureCleanDir(dir: string) {
 
 function checkoutGitCommit(input: { repoUrl: string; commitSha: string }, destDir: string) {
   ensureCleanDir(destDir);
+  const unavailable = (message: string) =>
+    new VerificationFailureError(verificationFailure('checkout', 'ARTIFACT_UNAVAILABLE', message));
+  const gitFailed = (message: string) =>
+    new VerificationFailureError(verificationFailure('checkout', 'TOOLCHAIN_UNAVAILABLE', message));
 
   if (!isRemoteRepoUrl(input.repoUrl)) {
     if (!fs.existsSync(input.repoUrl)) {
-      throw new Error(`Artifact repo path does not exist: ${input.repoUrl}`);
+      throw unavailable(`Artifact repo path does not exist: ${input.repoUrl}`);
     }
     fs.cpSync(input.repoUrl, destDir, { recursive: true });
   } else {
     const init = spawnSync('git', ['init'], { cwd: destDir, encoding: 'utf8' });
-    if (init.status !== 0) throw new Error(`git init failed: ${(init.stderr ?? init.stdout ?? '').trim()}`);
+    if (init.status !== 0) throw gitFailed(`git init failed: ${(init.stderr ?? init.stdout ?? '').trim()}`);
     const addRemote = spawnSync('git', ['remote', 'add', 'origin', input.repoUrl], { cwd: destDir, encoding: 'utf8' });
-    if (addRemote.status !== 0) throw new Error(`git remote add failed: ${(addRemote.stderr ?? addRemote.stdout ?? '').trim()}`);
+    if (addRemote.status !== 0) throw gitFailed(`git remote add failed: ${(addRemote.stderr ?? addRemote.stdout ?? '').trim()}`);
     const fetch = spawnSync('git', ['fetch', '--depth', '1', 'origin', input.commitSha], { cwd: destDir, encoding: 'utf8' });
-    if (fetch.status !== 0) throw new Error(`git fetch failed: ${(fetch.stderr ?? fetch.stdout ?? '').trim()}`);
+    if (fetch.status !== 0) throw unavailable(`git fetch failed: ${(fetch.stderr ?? fetch.stdout ?? '').trim()}`);
   }
 
   // Always checkout in the copied repo so we don't mutate the solver's working directory.
@@ -173,7 +466,7 @@ function checkoutGitCommit(input: { repoUrl: string; commitSha: string }, destDi
     const checkout = spawnSync('git', ['checkout', '--detach', input.commitSha], { cwd: destDir, encoding: 'utf8' });
     if (checkout.status !== 0) {
       const out = `${checkout.stdout ?? ''}${checkout.stderr ?? ''}`.trim();
-      throw new Error(`git checkout failed: ${out}`);
+      throw unavailable(`git checkout failed: ${out}`);
     }
   }
 }
@@ -189,6 +482,13 @@ function writeReport(report: VerificationReport) {
   );
 }
 
+// Signs the report over the milestones it passed, then writes it with its attestation.
+async function finishReport(report: VerificationReport, milestonesPassed: string[]): Promise<VerificationResult> {
+  report.attestation = await attest(reportAttestationMessage(report, milestonesPassed));
+  writeReport(report);
+  return { report, milestonesPassed };
+}
+
 function extractTxHashesFromForgeOutput(output: string): string[] {
   const matches: string[] = [];
   const re = /"(?:tx_hash|txHash|transactionHash)"\s*:\s*"(0x[a-fA-F0-9]{64})"/g;
@@ -200,22 +500,119 @@ function extractTxHashesFromForgeOutput(output: string): string[] {
   return matches;
 }
 
-export async function runVerification(input: {
+type VerificationInput = {
   workOrder: WorkOrder;
   submission: SubmissionPayload;
-  mode: 'mock' | 'real';
-}) {
+  mode: VerifierMode;
+  onProgress?: (stage: VerificationStage) => void;
+  // Called as soon as each milestone's stage passes, ahead of the final report.
+  onMilestone?: (milestoneKey: string, attestation: SignedVerificationAttestation) => void;
+  onLog?: (entry: Omit<VerificationLogEntry, 'seq'>) => void;
+};
+
+export async function runVerification(input: VerificationInput): Promise<VerificationResult> {
+  // Processes started for the run (the local anvil node) are stopped however it ends.
+  const cleanups: Array<() => void> = [];
+  try {
+    return await runVerificationStages(input, (cleanup) => cleanups.push(cleanup));
+  } finally {
+    for (const cleanup of cleanups) cleanup();
+  }
+}
+
+async function runVerificationStages(
+  input: VerificationInput,
+  onCleanup: (cleanup: () => void) => void
+): Promise<VerificationResult> {
   const startedAt = Date.now();
+  const progress = (stage: VerificationStage) => input.onProgress?.(stage);
+  const logTo = (stage: VerificationStage): OutputHandler => (stream, chunk) =>
+    input.onLog?.({ stage, stream, chunk, at: Date.now() });
+  const harness = harnessIdentity(harnessRoot);
+  const milestonesPassed: string[] = [];
+  const cachedStages: VerificationStage[] = [];
+  const reportId = randomUUID();
+  const passMilestone = async (milestoneKey: string) => {
+    milestonesPassed.push(milestoneKey);
+    if (!input.onMilestone) return;
+    const attestation = await attest({
+      reportId,
+      submissionId: input.submission.id,
+      artifactHash: input.submission.artifact.artifactHash,
+      harnessHash: harness.hash,
+      status: 'PENDING',
+      milestones: [...milestonesPassed],
+      txIdsRoot: verificationTxIdsRoot([]),
+    });
+    input.onMilestone(milestoneKey, attestation);
+  };
+
+  const proofChainId = input.mode === 'local' ? LOCAL_CHAIN_ID : Number(process.env.V4_CHAIN_ID ?? 84532);
+  const zeroAddress = '0x0000000000000000000000000000000000000000';
+  let proof: VerificationReport['proof'] = {
+    chainId: proofChainId,
+    hookAddress: zeroAddress,
+    tokenAAddress: zeroAddress,
+    tokenBAddress: zeroAddress,
+    poolKey: {},
+    poolId: '0x0',
+    txIds: [] as string[],
+  };
+
+  let buildLog = '';
+  let testLog = '';
+  let verifierStdout = '';
+  const gas: VerificationGasMetrics = { proof: emptyProofGas(), tests: [] };
+  const reportMetrics = (): VerificationReport['metrics'] => ({
+    latencySeconds: Math.max(1, Math.floor((Date.now() - startedAt) / 1000)),
+    gasUsedSwap: gas.proof.swap ?? undefined,
+    gas,
+  });
+
+  // Every early return goes through here so the FAIL report says which stage failed and who is to blame.
+  const fail = (failure: VerificationFailure, stdout = failure.message) => {
+    const report: VerificationReport = {
+      id: reportId,
+      submissionId: input.submission.id,
+      status: 'FAIL',
+      logs: {
+        buildLog,
+        testLog,
+        verifierStdout: stdout,
+      },
+      proof,
+      metrics: reportMetrics(),
+      producedAt: Date.now(),
+      artifactHash: input.submission.artifact.artifactHash,
+      cachedStages,
+      harnessHash: harness.hash,
+      failure,
+    };
+    return finishReport(report, milestonesPassed);
+  };
+
+  let template: HookTemplateDefinition;
+  try {
+    assertHarnessPinned(input.workOrder, harness);
+    template = requireTemplate(input.workOrder);
+  } catch (err) {
+    if (err instanceof VerificationFailureError) return fail(err.failure);
+    throw err;
+  }
 
   if (input.mode === 'mock') {
-    const proof = await runMockV4Proof({
+    progress('proof');
+    for (const line of ['mock: forge build ok', 'mock: forge test ok', 'mock: onchain proof simulated']) {
+      logTo('proof')('stdout', `${line}\n`);
+    }
+    const mockProof = await runMockV4Proof({
       workOrderId: input.workOrder.id,
       submissionId: input.submission.id,
       chainId: 84532,
     });
 
     const report: VerificationReport = {
-      id: randomUUID(),
+      id: reportId,
       submissionId: input.submission.id,
       status: 'PASS',
       logs: {
@@ -223,20 +620,18 @@ export async function runVerification(input: {
         testLog: 'mock: forge test ok',
         verifierStdout: 'mock: onchain proof simulated',
       },
-      proof,
+      proof: mockProof,
       metrics: {
         latencySeconds: Math.max(1, Math.floor((Date.now() - startedAt) / 1000)),
       },
       producedAt: Date.now(),
       artifactHash: input.submission.artifact.artifactHash,
+      cachedStages,
+      harnessHash: harness.hash,
     };
 
-    writeReport(report);
-
-    return {
-      report,
-      milestonesPassed: ['M1_COMPILE_OK', 'M2_TESTS_OK', 'M3_DEPLOY_OK', 'M4_V4_POOL_PROOF_OK'],
-    };
+    for (const milestoneKey of template.milestones) await passMilestone(milestoneKey);
+    return finishReport(report, milestonesPassed);
   }
 
   const runId = `${input.workOrder.id}_${input.submission.id}`;
@@ -249,144 +644,102 @@ export async function runVerification(input: {
   }
 
   const templateType = input.workOrder.templateType;
-  checkoutGitCommit(
-    { repoUrl: input.submission.artifact.repoUrl, commitSha: input.submission.artifact.commitSha },
-    artifactDir
-  );
-  const artifactPath = resolveArtifactPath(artifactDir);
-  const hookDest = path.join(
-    harnessDir,
-    'src',
-    templateType === 'SWAP_CAP_HOOK' ? 'SwapCapHook.sol' : 'WhitelistHook.sol'
-  );
+  progress('checkout');
+  let artifactPath: string;
+  try {
+    checkoutGitCommit(
+      { repoUrl: input.submission.artifact.repoUrl, commitSha: input.submission.artifact.commitSha },
+      artifactDir
+    );
+    artifactPath = resolveArtifactPath(artifactDir);
+  } catch (err) {
+    if (err instanceof VerificationFailureError) return fail(err.failure);
+    throw err;
+  }
+  const hookDest = path.join(harnessDir, 'src', template.harness.hookFile);
   fs.copyFileSync(artifactPath, hookDest);
 
   const v4CorePath = path.join(harnessDir, 'lib', 'v4-core');
   if (!fs.existsSync(v4CorePath)) {
-    const report: VerificationReport = {
-      id: randomUUID(),
-      submissionId: input.submission.id,
-      status: 'FAIL',
-      logs: {
-        buildLog: '',
-        testLog: '',
-        verifierStdout: 'Missing v4-core dependency. From `harness/v4-hook-harness`: run `forge install uniswap/v4-core --no-commit` then `git -C lib/v4-core submodule update --init --recursive`.',
-      },
-      proof: {
-        chainId: Number(process.env.V4_CHAIN_ID ?? 84532),
-        hookAddress: '0x0000000000000000000000000000000000000000',
-        tokenAAddress: '0x0000000000000000000000000000000000000000',
-        tokenBAddress: '0x0000000000000000000000000000000000000000',
-        poolKey: {},
-        poolId: '0x0',
-        txIds: [],
-      },
-      metrics: {
-        latencySeconds: Math.max(1, Math.floor((Date.now() - startedAt) / 1000)),
-      },
-      producedAt: Date.now(),
-      artifactHash: input.submission.artifact.artifactHash,
-    };
-    writeReport(report);
-    return { report, milestonesPassed: [] };
+    return fail(verificationFailure('build', 'HARNESS_DEPS_MISSING', MISSING_V4_CORE_MESSAGE));
   }
 
+  let paramEnv: Record<string, string>;
+  try {
+    paramEnv = templateEnv(template, input.workOrder.params ?? {});
+  } catch (err) {
+    return fail(verificationFailure('checkout', 'TEMPLATE_PARAMS_INVALID', String((err as any)?.message ?? err)));
+  }
   const envBase: NodeJS.ProcessEnv = {
     ...process.env,
-    CAP_AMOUNT_IN: String(input.workOrder.params?.capAmountIn ?? 1000),
-    ALLOWLIST_A: String((input.workOrder.params?.allowlist as string[] | undefined)?.[0]
-      ?? '0x0000000000000000000000000000000000000001'),
-    ALLOWLIST_B: String((input.workOrder.params?.allowlist as string[] | undefined)?.[1]
-      ?? '0x0000000000000000000000000000000000000002'),
+    ...paramEnv,
   };
 
-  const milestonesPassed: string[] = [];
-  let buildLog = '';
-  let testLog = '';
-  let verifierStdout = '';
-
-  const zeroAddress = '0x0000000000000000000000000000000000000000';
-  let proof: VerificationReport['proof'] = {
-    chainId: Number(process.env.V4_CHAIN_ID ?? 84532),
-    hookAddress: zeroAddress,
-    tokenAAddress: zeroAddress,
-    tokenBAddress: zeroAddress,
-    poolKey: {},
-    poolId: '0x0',
-    txIds: [] as string[],
+  // Build and test outcomes are reused for the same hook source, harness, template, params and forge args.
+  const forgeArgs: Record<CacheableStage, string[]> = {
+    build: ['build'],
+    test: ['test', '--match-path', template.harness.testPath, '--gas-report'],
+  };
+  const cacheKey = verificationCacheKey({
+    contentHash: fileContentHash(artifactPath),
+    harnessHash: harness.hash,
+    templateType,
+    env: paramEnv,
+    forgeArgs,
+  });
+  const runCachedStage = async (stage: CacheableStage, run: () => Promise<CommandResult>): Promise<CommandResult> => {
+    progress(stage);
+    const cached = readCachedStage(cacheKey, stage);
+    if (cached) {
+      cachedStages.push(stage);
+      logTo(stage)('stdout', `cached: reusing forge ${stage} output from ${new Date(cached.cachedAt).toISOString()}\n`);
+      return { ok: true, output: cached.log };
+    }
+    const result = await run();
+    if (result.ok) writeCachedStage(cacheKey, stage, result.output);
+    return result;
   };
 
-  const build = runForge(['build'], harnessDir, envBase, { network: 'none' });
+  const build = await runCachedStage('build', () =>
+    runForge(forgeArgs.build, harnessDir, envBase, { stage: 'build', network: 'none', onOutput: logTo('build') })
+  );
   buildLog = build.output;
   if (!build.ok) {
-    const report: VerificationReport = {
-      id: randomUUID(),
-      submissionId: input.submission.id,
-      status: 'FAIL',
-      logs: {
-        buildLog,
-        testLog: '',
-        verifierStdout: build.error?.message ?? 'forge build failed',
-      },
-      proof,
-      metrics: {
-        latencySeconds: Math.max(1, Math.floor((Date.now() - startedAt) / 1000)),
-      },
-      producedAt: Date.now(),
-      artifactHash: input.submission.artifact.artifactHash,
-    };
-    writeReport(report);
-    return { report, milestonesPassed };
+    return fail(forgeFailure('build', build, 'BUILD_FAILED', 'forge build failed'));
   }
-  milestonesPassed.push('M1_COMPILE_OK');
-
-  const testPath = templateType === 'SWAP_CAP_HOOK' ? 'test/SwapCapHook.t.sol' : 'test/WhitelistHook.t.sol';
-  const test = runForge(['test', '--match-path', testPath], harnessDir, envBase, { network: 'none' });
+  await passMilestone('M1_COMPILE_OK');
+
+  const test = await runCachedStage('test', () =>
+    runForge(forgeArgs.test, harnessDir, envBase, {
+      stage: 'test',
+      network: 'none',
+      onOutput: logTo('test'),
+    })
+  );
   testLog = test.output;
+  gas.tests = parseGasReport(testLog);
   if (!test.ok) {
-    const report: VerificationReport = {
-      id: randomUUID(),
-      submissionId: input.submission.id,
-      status: 'FAIL',
-      logs: {
-        buildLog,
-        testLog,
-        verifierStdout: test.error?.message ?? 'forge test failed',
-      },
-      proof,
-      metrics: {
-        latencySeconds: Math.max(1, Math.floor((Date.now() - startedAt) / 1000)),
-      },
-      producedAt: Date.now(),
-      artifactHash: input.submission.artifact.artifactHash,
-    };
-    writeReport(report);
-    return { report, milestonesPassed };
+    return fail(forgeFailure('test', test, 'TESTS_FAILED', 'forge test failed'));
+  }
+  await passMilestone('M2_TESTS_OK');
+
+  progress('proof');
+  let rpcUrl = process.env.V4_RPC_URL;
+  let privateKey = process.env.V4_PRIVATE_KEY;
+  let poolManager = process.env.V4_POOL_MANAGER ?? '0x05E73354cFDd1B9f74B0Afdc6fC8E6B9d0B2fA96';
+  if (input.mode === 'local') {
+    try {
+      const chain = await startLocalChain(resolveFoundryBin('anvil', envBase), logTo('proof'));
+      onCleanup(chain.stop);
+      rpcUrl = chain.rpcUrl;
+      privateKey = chain.privateKey;
+      poolManager = await deployLocalPoolManager(harnessDir, envBase, chain, logTo('proof'));
+    } catch (err) {
+      return fail(verificationFailure('proof', 'LOCAL_CHAIN_FAILED', String((err as any)?.message ?? err)));
+    }
   }
-  milestonesPassed.push('M2_TESTS_OK');
-
-  const rpcUrl = process.env.V4_RPC_URL;
-  const privateKey = process.env.V4_PRIVATE_KEY;
-  const poolManager = process.env.V4_POOL_MANAGER ?? '0x05E73354cFDd1B9f74B0Afdc6fC8E6B9d0B2fA96';
   if (!rpcUrl || !privateKey) {
-    const report: VerificationReport = {
-      id: randomUUID(),
-      submissionId: input.submission.id,
-      status: 'FAIL',
-      logs: {
-        buildLog,
-        testLog,
-        verifierStdout: 'Missing V4_RPC_URL or V4_PRIVATE_KEY for real verification',
-      },
-      proof,
-      metrics: {
-        latencySeconds: Math.max(1, Math.floor((Date.now() - startedAt) / 1000)),
-      },
-      producedAt: Date.now(),
-      artifactHash: input.submission.artifact.artifactHash,
-    };
-    writeReport(report);
-    return { report, milestonesPassed };
+    return fail(verificationFailure('proof', 'PROOF_CONFIG_MISSING', 'Missing V4_RPC_URL or V4_PRIVATE_KEY for real verification'));
   }
 
   // Foundry restricts vm.writeFile to paths within the project directory.
@@ -399,8 +752,9 @@ export async function runVerification(input: {
     // Keep PROOF_OUT relative so Foundry's vm.writeFile sandbox permits it.
     PROOF_OUT: 'proof.json',
   };
+  const scriptNetwork = input.mode === 'local' ? 'host' : 'default';
 
-  const scriptResult = runForge(
+  const scriptResult = await runForge(
     [
       'script',
       'script/V4Proof.s.sol:V4Proof',
@@ -413,43 +767,27 @@ export async function runVerification(input: {
     ],
     harnessDir,
     scriptEnv,
-    { network: 'default' }
+    { stage: 'script', network: scriptNetwork, onOutput: logTo('proof') }
   );
   verifierStdout = scriptResult.output;
   if (!scriptResult.ok) {
-    const report: VerificationReport = {
-      id: randomUUID(),
-      submissionId: input.submission.id,
-      status: 'FAIL',
-      logs: {
-        buildLog,
-        testLog,
-        verifierStdout,
-      },
-      proof,
-      metrics: {
-        latencySeconds: Math.max(1, Math.floor((Date.now() - startedAt) / 1000)),
-      },
-      producedAt: Date.now(),
-      artifactHash: input.submission.artifact.artifactHash,
-    };
-    writeReport(report);
-    return { report, milestonesPassed };
+    return fail(forgeFailure('proof', scriptResult, 'PROOF_SCRIPT_FAILED', 'forge script failed'), verifierStdout);
   }
+  await passMilestone('M3_DEPLOY_OK');
 
   // With `forge script --json`, stdout is often multiple JSON objects separated by newlines.
   // The most reliable source of tx hashes is the broadcast artifact that Foundry writes.
   let txIds: string[] = [];
   try {
-    const chainId = Number(process.env.V4_CHAIN_ID ?? 84532);
-    const broadcastPath = path.join(harnessDir, 'broadcast', 'V4Proof.s.sol', String(chainId), 'run-latest.json');
-    const fallbackPath = path.join(harnessDir, 'broadcast', 'V4Proof.s.sol', String(chainId), 'dry-run', 'run-latest.json');
+    const broadcastPath = path.join(harnessDir, 'broadcast', 'V4Proof.s.sol', String(proofChainId), 'run-latest.json');
+    const fallbackPath = path.join(harnessDir, 'broadcast', 'V4Proof.s.sol', String(proofChainId), 'dry-run', 'run-latest.json');
     const runPath = fs.existsSync(broadcastPath) ? broadcastPath : fallbackPath;
     if (fs.existsSync(runPath)) {
       const parsed = JSON.parse(fs.readFileSync(runPath, 'utf8'));
       txIds = (parsed.transactions ?? parsed.receipts ?? [])
         .map((tx: any) => tx.hash ?? tx.transactionHash)
         .filter((hash: string | undefined) => !!hash);
+      Object.assign(gas.proof, proofGasFromBroadcast(parsed));
     }
   } catch {
     txIds = [];
@@ -457,9 +795,15 @@ export async function runVerification(input: {
 
   if (fs.existsSync(proofOut)) {
     const proofRaw = fs.readFileSync(proofOut, 'utf8');
-    const parsedProof = JSON.parse(proofRaw);
+    let parsedProof: any;
+    try {
+      parsedProof = JSON.parse(proofRaw);
+    } catch (error) {
+      const message = `proof.json written by the proof script is not valid JSON: ${String((error as Error)?.message ?? error)}`;
+      return fail(verificationFailure('proof', 'PROOF_SCRIPT_FAILED', message), verifierStdout);
+    }
     proof = {
-      chainId: Number(parsedProof.chainId ?? process.env.V4_CHAIN_ID ?? 84532),
+      chainId: Number(parsedProof.chainId ?? proofChainId),
       hookAddress: parsedProof.hookAddress ?? zeroAddress,
       tokenAAddress: parsedProof.tokenAAddress ?? zeroAddress,
       tokenBAddress: parsedProof.tokenBAddress ?? zeroAddress,
@@ -475,8 +819,9 @@ export async function runVerification(input: {
   // We avoid a reverted top-level tx (Foundry may not emit a broadcast artifact for it),
   // and instead broadcast a successful tx that emits `NegativeSwapOutcome(reverted, reason)`.
   let negativeTx: string | null = null;
+  progress('negative_proof');
   try {
-    const negative = runForge(
+    const negative = await runForge(
       [
         'script',
         'script/V4NegativeProof.s.sol:V4NegativeProof',
@@ -490,12 +835,11 @@ export async function runVerification(input: {
       ],
       harnessDir,
       { ...scriptEnv, PROOF_IN: 'proof.json' },
-      { network: 'default' }
+      { stage: 'script', network: scriptNetwork, onOutput: logTo('negative_proof') }
     );
 
-    const chainId = Number(process.env.V4_CHAIN_ID ?? 84532);
-    const broadcastPath = path.join(harnessDir, 'broadcast', 'V4NegativeProof.s.sol', String(chainId), 'run-latest.json');
-    const fallbackPath = path.join(harnessDir, 'broadcast', 'V4NegativeProof.s.sol', String(chainId), 'dry-run', 'run-latest.json');
+    const broadcastPath = path.join(harnessDir, 'broadcast', 'V4NegativeProof.s.sol', String(proofChainId), 'run-latest.json');
+    const fallbackPath = path.join(harnessDir, 'broadcast', 'V4NegativeProof.s.sol', String(proofChainId), 'dry-run', 'run-latest.json');
     const runPath = fs.existsSync(broadcastPath) ? broadcastPath : fallbackPath;
 
     const hashes: string[] = [];
@@ -515,13 +859,17 @@ export async function runVerification(input: {
     }
 
     if (hashes.length === 0) {
-      throw new Error(`Unable to locate negative proof tx hash. forge ok=${negative.ok}`);
+      throw new VerificationFailureError(
+        negative.ok
+          ? verificationFailure('negative_proof', 'NEGATIVE_PROOF_MISSING', 'Unable to locate negative proof tx hash')
+          : forgeFailure('negative_proof', negative, 'NEGATIVE_PROOF_MISSING', 'Unable to locate negative proof tx hash')
+      );
     }
 
     const negativeSwapOutcomeEvent = parseAbiItem('event NegativeSwapOutcome(bool reverted, string reason)');
-    const expectedReason = templateType === 'SWAP_CAP_HOOK' ? 'CAP' : 'NOT_ALLOWLISTED';
+    const expectedReason = template.negativeProof.expectedReason;
     const publicClient = createPublicClient({
-      chain: baseSepolia,
+      chain: input.mode === 'local' ? foundry : baseSepolia,
       transport: http(rpcUrl),
     });
 
@@ -548,48 +896,53 @@ export async function runVerification(input: {
 
       if (!outcome) continue;
       negativeTx = candidate;
+      gas.proof.negativeSwap = receipt.gasUsed.toString();
 
       if (outcome.reverted !== true) {
-        throw new Error('Negative swap unexpectedly succeeded (hook enforcement failed)');
+        throw new VerificationFailureError(
+          verificationFailure(
+            'negative_proof',
+            'NEGATIVE_PROOF_NOT_ENFORCED',
+            'Negative swap unexpectedly succeeded (hook enforcement failed)'
+          )
+        );
       }
       if (outcome.reason !== expectedReason) {
-        throw new Error(`Negative swap reverted with reason="${outcome.reason}" (expected "${expectedReason}")`);
+        throw new VerificationFailureError(
+          verificationFailure(
+            'negative_proof',
+            'NEGATIVE_PROOF_WRONG_REASON',
+            `Negative swap reverted with reason="${outcome.reason}" (expected "${expectedReason}")`
+          )
+        );
       }
       break;
     }
 
     if (!negativeTx) {
-      throw new Error('Unable to find NegativeSwapOutcome event in negative proof tx receipts');
+      throw new VerificationFailureError(
+        verificationFailure(
+          'negative_proof',
+          'NEGATIVE_PROOF_MISSING',
+          'Unable to find NegativeSwapOutcome event in negative proof tx receipts'
+        )
+      );
     }
 
     txIds.push(negativeTx);
     proof.txIds = txIds;
   } catch (err) {
-    const message = String((err as any)?.message ?? err);
-    const report: VerificationReport = {
-      id: randomUUID(),
-      submissionId: input.submission.id,
-      status: 'FAIL',
-      logs: {
-        buildLog,
-        testLog,
-        verifierStdout: `${verifierStdout}\nnegativeProofError: ${message}`.trim(),
-      },
-      proof,
-      metrics: {
-        latencySeconds: Math.max(1, Math.floor((Date.now() - startedAt) / 1000)),
-      },
-      producedAt: Date.now(),
-      artifactHash: input.submission.artifact.artifactHash,
-    };
-    writeReport(report);
-    return { report, milestonesPassed };
+    // Anything else thrown here came from reading receipts off the RPC.
+    const failure = err instanceof VerificationFailureError
+      ? err.failure
+      : verificationFailure('negative_proof', 'RPC_UNAVAILABLE', String((err as any)?.message ?? err));
+    return fail(failure, `${verifierStdout}\nnegativeProofError: ${failure.message}`.trim());
   }
 
-  milestonesPassed.push('M3_DEPLOY_OK', 'M4_V4_POOL_PROOF_OK');
+  await passMilestone('M4_V4_POOL_PROOF_OK');
 
   const report: VerificationReport = {
-    id: randomUUID(),
+    id: reportId,
     submissionId: input.submission.id,
     status: 'PASS',
     logs: {
@@ -598,27 +951,49 @@ export async function runVerification(input: {
       verifierStdout,
     },
     proof,
-    metrics: {
-      latencySeconds: Math.max(1, Math.floor((Date.now() - startedAt) / 1000)),
-    },
+    metrics: reportMetrics(),
     producedAt: Date.now(),
     artifactHash: input.submission.artifact.artifactHash,
+    cachedStages,
+    harnessHash: harness.hash,
   };
 
-  writeReport(report);
-
-  return { report, milestonesPassed };
+  return finishReport(report, milestonesPassed);
 }
 
-export async function runChallenge(input: {
-  mode: 'mock' | 'real';
+type ChallengeInput = {
+  mode: VerifierMode;
   workOrder: WorkOrder;
   submission: SubmissionPayload;
   challenge: ChallengePayload;
-}) {
+};
+
+// Every outcome is signed, so the API can tell a verifier's answer from a spoofed response.
+export async function runChallenge(input: ChallengeInput): Promise<ChallengeResult> {
+  const result = await challengeOutcome(input);
+  const attestation = await attestChallengeResult({
+    challengeId: input.challenge.id,
+    workOrderId: input.workOrder.id,
+    submissionId: input.submission.id,
+    artifactHash: input.submission.artifact.artifactHash,
+    outcome: result.outcome,
+  });
+  return { ...result, attestation };
+}
+
+async function challengeOutcome(input: ChallengeInput): Promise<ChallengeResult> {
+  const errored = (failure: VerificationFailure): ChallengeResult => ({ outcome: 'ERROR', failure });
+  let template: HookTemplateDefinition;
+  try {
+    assertHarnessPinned(input.workOrder, harnessIdentity(harnessRoot));
+    template = requireTemplate(input.workOrder);
+  } catch (err) {
+    if (err instanceof VerificationFailureError) return errored(err.failure);
+    throw err;
+  }
   if (input.mode === 'mock') {
     const outcome = process.env.V4SHM_CHALLENGE_OUTCOME ?? 'REJECTED';
-    return { outcome: outcome === 'SUCCESS' ? 'SUCCESS' : 'REJECTED' } as const;
+    return { outcome: outcome === 'SUCCESS' ? 'SUCCESS' : 'REJECTED', failure: null };
   }
 
   const runId = `${input.workOrder.id}_${input.submission.id}_${input.challenge.id}`;
@@ -630,57 +1005,65 @@ export async function runChallenge(input: {
     fs.cpSync(harnessRoot, harnessDir, { recursive: true });
   }
 
-  checkoutGitCommit(
-    { repoUrl: input.submission.artifact.repoUrl, commitSha: input.submission.artifact.commitSha },
-    artifactDir
-  );
-  const artifactPath = resolveArtifactPath(artifactDir);
+  let artifactPath: string;
+  try {
+    checkoutGitCommit(
+      { repoUrl: input.submission.artifact.repoUrl, commitSha: input.submission.artifact.commitSha },
+      artifactDir
+    );
+    artifactPath = resolveArtifactPath(artifactDir);
+  } catch (err) {
+    if (err instanceof VerificationFailureError) return errored(err.failure);
+    throw err;
+  }
 
   const templateType = input.workOrder.templateType;
-  const hookDest = path.join(
-    harnessDir,
-    'src',
-    templateType === 'SWAP_CAP_HOOK' ? 'SwapCapHook.sol' : 'WhitelistHook.sol'
-  );
+  const hookDest = path.join(harnessDir, 'src', template.harness.hookFile);
   fs.copyFileSync(artifactPath, hookDest);
 
   const v4CorePath = path.join(harnessDir, 'lib', 'v4-core');
   if (!fs.existsSync(v4CorePath)) {
-    throw new Error('Missing v4-core dependency. From `harness/v4-hook-harness`: run `forge install uniswap/v4-core --no-commit` then `git -C lib/v4-core submodule update --init --recursive`.');
+    return errored(verificationFailure('build', 'HARNESS_DEPS_MISSING', MISSING_V4_CORE_MESSAGE));
   }
 
   const repro = (input.challenge.reproductionSpec ?? {}) as Record<string, unknown>;
-  const capAmountIn = String(input.workOrder.params?.capAmountIn ?? 1000);
-  const allowlist = (input.workOrder.params?.allowlist as string[] | undefined) ?? [];
+  let paramEnv: Record<string, string>;
+  try {
+    paramEnv = templateEnv(template, input.workOrder.params ?? {});
+  } catch (err) {
+    return errored(verificationFailure('checkout', 'TEMPLATE_PARAMS_INVALID', String((err as any)?.message ?? err)));
+  }
 
+  const defaults = template.negativeProof.challengeDefaults;
   let challengeAmountIn = repro.amountIn;
   if (typeof challengeAmountIn !== 'string' && typeof challengeAmountIn !== 'number') {
-    const cap = Number(capAmountIn);
-    challengeAmountIn = Number.isFinite(cap) ? cap + 1 : 1001;
+    const above = defaults.amountInAboveParam ? Number(input.workOrder.params?.[defaults.amountInAboveParam]) : NaN;
+    challengeAmountIn = Number.isFinite(above) ? above + 1 : defaults.amountIn;
   }
 
   let challengeTrader = repro.trader;
   if (typeof challengeTrader !== 'string') {
-    challengeTrader = '0x0000000000000000000000000000000000000003';
+    challengeTrader = defaults.trader;
   }
 
   const envBase: NodeJS.ProcessEnv = {
     ...process.env,
     TEMPLATE_TYPE: templateType,
-    CAP_AMOUNT_IN: capAmountIn,
-    ALLOWLIST_A: String(allowlist[0] ?? '0x0000000000000000000000000000000000000001'),
-    ALLOWLIST_B: String(allowlist[1] ?? '0x0000000000000000000000000000000000000002'),
+    ...paramEnv,
     CHALLENGE_AMOUNT_IN: String(challengeAmountIn),
     CHALLENGE_TRADER: String(challengeTrader),
   };
 
-  const build = runForge(['build'], harnessDir, envBase, { network: 'none' });
+  const build = await runForge(['build'], harnessDir, envBase, { stage: 'challenge', network: 'none' });
   if (!build.ok) {
-    throw new Error(`forge build failed for challenge: ${build.output}`);
+    return errored(forgeFailure('build', build, 'BUILD_FAILED', `forge build failed for challenge: ${build.output}`));
   }
 
   // If this test fails, the challenger found a real spec violation for the provided reproduction input.
-  const test = runForge(['test', '--match-path', 'test/Challenge.t.sol'], harnessDir, envBase, { network: 'none' });
-  const outcome = test.ok ? 'REJECTED' : 'SUCCESS';
-  return { outcome } as const;
+  const test = await runForge(['test', '--match-path', template.harness.challengeTestPath], harnessDir, envBase, {
+    stage: 'challenge',
+    network: 'none',
+  });
+  if (test.error || test.limit) return errored(forgeFailure('test', test, 'TESTS_FAILED', 'forge test failed for challenge'));
+  return { outcome: test.ok ? 'REJECTED' : 'SUCCESS', failure: null };
 }
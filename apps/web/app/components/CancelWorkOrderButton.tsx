@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { CancelWorkOrderTypes } from '@v4shm/shared';
+import { API_BASE } from '../../lib/api';
+import { signRequesterAction } from '../../lib/requester';
+
+export default function CancelWorkOrderButton(
+  { workOrderId, requesterAddress, revision }: { workOrderId: string; requesterAddress: string | null; revision: number }
+) {
+  const router = useRouter();
+  const [status, setStatus] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function handleClick() {
+    if (isLoading) return;
+    setIsLoading(true);
+
+    try {
+      let auth: { signature?: string; issuedAt?: number; revision?: number } = {};
+      if (requesterAddress) {
+        setStatus('Waiting for requester signature...');
+        const issuedAt = Date.now();
+        const signature = await signRequesterAction(requesterAddress, CancelWorkOrderTypes, { workOrderId, revision, issuedAt });
+        auth = { signature, issuedAt, revision };
+      }
+
+      setStatus('Cancelling...');
+      const res = await fetch(`${API_BASE}/work-orders/${workOrderId}/cancel`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(auth),
+      });
+
+      if (!res.ok) {
+        setStatus(`Error: ${await res.text()}`);
+        return;
+      }
+
+      setStatus('Cancelled. Unspent allowance refunded.');
+      router.refresh();
+    } catch (err) {
+      setStatus(`Error: ${String((err as any)?.message ?? err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div>
+      <button className="button secondary" onClick={handleClick} disabled={isLoading}>
+        Cancel Work Order
+      </button>
+      {status && <p className="help">{status}</p>}
+    </div>
+  );
+}
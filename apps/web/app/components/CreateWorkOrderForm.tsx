@@ -2,27 +2,139 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { WorkOrderTypes, sha256Hex, type HookTemplateDefinition } from '@v4shm/shared';
+import { signRequesterAction } from '../../lib/requester';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_BASE ?? 'http://localhost:3001';
 
-export default function CreateWorkOrderForm() {
+const WINDOW_FIELDS = [
+  { key: 'biddingMs', label: 'Bidding' },
+  { key: 'revealMs', label: 'Reveal (sealed bids only)' },
+  { key: 'deliveryMs', label: 'Delivery' },
+  { key: 'verifyMs', label: 'Verify' },
+  { key: 'challengeMs', label: 'Challenge' },
+  { key: 'patchMs', label: 'Patch' },
+] as const;
+
+const DEFAULT_PAYOUT_SCHEDULE = [
+  { key: 'M1_COMPILE_OK', percent: 10 },
+  { key: 'M2_TESTS_OK', percent: 25 },
+  { key: 'M3_DEPLOY_OK', percent: 20 },
+  { key: 'M4_V4_POOL_PROOF_OK', percent: 25 },
+  { key: 'M5_NO_CHALLENGE_OR_PATCH_OK', percent: 20 },
+] as const;
+
+function defaultParamValues(template: HookTemplateDefinition) {
+  return Object.fromEntries(
+    Object.entries(template.paramsSchema.properties).map(([key, property]) => [
+      key,
+      Array.isArray(property.default) ? property.default.join(',') : String(property.default ?? ''),
+    ])
+  );
+}
+
+export default function CreateWorkOrderForm({ templates }: { templates: HookTemplateDefinition[] }) {
   const router = useRouter();
-  const [title, setTitle] = useState('Try it: SwapCapHook bounty (cap amountIn per swap)');
-  const [templateType, setTemplateType] = useState<'SWAP_CAP_HOOK' | 'WHITELIST_HOOK'>('SWAP_CAP_HOOK');
+  const [title, setTitle] = useState(templates[0].defaultTitle);
+  const [templateType, setTemplateType] = useState(templates[0].type);
   const [bounty, setBounty] = useState('0.05');
-  const [capAmountIn, setCapAmountIn] = useState('1000');
-  const [allowlist, setAllowlist] = useState('0x0000000000000000000000000000000000000001,0x0000000000000000000000000000000000000002');
+  const [paramValues, setParamValues] = useState<Record<string, string>>(defaultParamValues(templates[0]));
   const [requesterAddress, setRequesterAddress] = useState('');
+  const [biddingMode, setBiddingMode] = useState<'OPEN' | 'SEALED' | 'DUTCH'>('OPEN');
+  const [dutchStartPrice, setDutchStartPrice] = useState('0.01');
+  const [dutchStepSeconds, setDutchStepSeconds] = useState('');
+  const [windowSeconds, setWindowSeconds] = useState<Record<string, string>>({});
+  const [raceSolvers, setRaceSolvers] = useState('');
+  const [raceConsolation, setRaceConsolation] = useState('0.005');
+  const [scoringStrategy, setScoringStrategy] = useState<'LOWEST_PRICE' | 'WEIGHTED'>('LOWEST_PRICE');
+  const [scoringWeights, setScoringWeights] = useState<Record<string, string>>({ price: '0.6', eta: '0.2', reputation: '0.2' });
+  const [minReputation, setMinReputation] = useState('');
+  const [payoutPercents, setPayoutPercents] = useState<Record<string, string>>(
+    Object.fromEntries(DEFAULT_PAYOUT_SCHEDULE.map(({ key, percent }) => [key, String(percent)]))
+  );
   const [status, setStatus] = useState<string | null>(null);
   const [lastCreatedId, setLastCreatedId] = useState<string | null>(null);
 
+  const template = templates.find((candidate) => candidate.type === templateType) ?? templates[0];
+
+  function handleTemplateChange(nextType: string) {
+    const next = templates.find((candidate) => candidate.type === nextType);
+    if (!next) return;
+    // Only replace the title if the user has not edited it.
+    if (title === template.defaultTitle) setTitle(next.defaultTitle);
+    setTemplateType(next.type);
+    setParamValues(defaultParamValues(next));
+  }
+
   async function handleSubmit(event: React.FormEvent) {
     event.preventDefault();
     setStatus('Creating...');
     setLastCreatedId(null);
-    const params = templateType === 'SWAP_CAP_HOOK'
-      ? { capAmountIn: Number(capAmountIn) }
-      : { allowlist: allowlist.split(',').map((addr) => addr.trim()) };
+    // Send the raw values so the API reports field-level errors against the template schema.
+    const params = Object.fromEntries(
+      Object.entries(template.paramsSchema.properties).map(([key, property]) => {
+        const raw = (paramValues[key] ?? '').trim();
+        if (property.type === 'array') return [key, raw ? raw.split(',').map((item) => item.trim()) : []];
+        return [key, raw === '' ? undefined : Number(raw)];
+      })
+    );
+    const requester = requesterAddress.trim();
+    // Blank fields fall back to the API defaults.
+    const windows: Record<string, number> = {};
+    for (const { key } of WINDOW_FIELDS) {
+      const value = windowSeconds[key]?.trim();
+      if (value) windows[key] = Math.round(Number(value) * 1000);
+    }
+    const hasWindows = Object.keys(windows).length > 0;
+    // Milestones left blank or at 0% are dropped; an unchanged schedule uses the API default.
+    const payoutSchedule = DEFAULT_PAYOUT_SCHEDULE
+      .map(({ key }) => ({ key, percent: Number(payoutPercents[key]?.trim() || 0) }))
+      .filter((milestone) => milestone.percent !== 0);
+    const customSchedule = DEFAULT_PAYOUT_SCHEDULE.some(({ key, percent }) => Number(payoutPercents[key]) !== percent);
+
+    const dutchAuction = biddingMode === 'DUTCH'
+      ? {
+          startPrice: dutchStartPrice.trim(),
+          stepMs: dutchStepSeconds.trim() ? Math.round(Number(dutchStepSeconds) * 1000) : undefined,
+        }
+      : undefined;
+    const race = raceSolvers.trim()
+      ? { solvers: Number(raceSolvers), consolationAmount: raceConsolation.trim() || '0' }
+      : undefined;
+    const customScoring = scoringStrategy !== 'LOWEST_PRICE' || minReputation.trim() !== '';
+    const scoringPolicy = {
+      strategy: scoringStrategy,
+      weights: scoringStrategy === 'WEIGHTED'
+        ? Object.fromEntries(Object.entries(scoringWeights).map(([key, value]) => [key, Number(value.trim() || 0)]))
+        : undefined,
+      minReputation: minReputation.trim() ? Number(minReputation) : undefined,
+    };
+
+    // A named requester signs the work order so only they can select quotes and settle it later.
+    let auth: { signature?: string; issuedAt?: number } = {};
+    if (requester) {
+      const issuedAt = Date.now();
+      try {
+        const signature = await signRequesterAction(requester, WorkOrderTypes, {
+          title,
+          templateType,
+          paramsHash: sha256Hex(JSON.stringify(params)),
+          windowsHash: sha256Hex(JSON.stringify(hasWindows ? windows : {})),
+          payoutScheduleHash: sha256Hex(JSON.stringify(customSchedule ? payoutSchedule : [])),
+          biddingMode,
+          scoringPolicyHash: sha256Hex(JSON.stringify(customScoring ? scoringPolicy : {})),
+          dutchAuctionHash: sha256Hex(JSON.stringify(dutchAuction ?? {})),
+          raceHash: sha256Hex(JSON.stringify(race ?? {})),
+          bountyCurrency: 'ytest.usd',
+          bountyAmount: bounty,
+          issuedAt,
+        });
+        auth = { signature, issuedAt };
+      } catch (err) {
+        setStatus(`Error: ${String((err as any)?.message ?? err)}`);
+        return;
+      }
+    }
 
     const res = await fetch(`${API_BASE}/work-orders`, {
       method: 'POST',
@@ -32,7 +144,14 @@ export default function CreateWorkOrderForm() {
         templateType,
         params,
         bounty: { currency: 'ytest.usd', amount: bounty },
-        requesterAddress: requesterAddress.trim() ? requesterAddress.trim() : undefined,
+        requesterAddress: requester ? requester : undefined,
+        windows: hasWindows ? windows : undefined,
+        payoutSchedule: customSchedule ? payoutSchedule : undefined,
+        biddingMode,
+        dutchAuction,
+        race,
+        scoringPolicy: customScoring ? scoringPolicy : undefined,
+        ...auth,
       }),
     });
 
@@ -59,25 +178,25 @@ export default function CreateWorkOrderForm() {
       </label>
       <label>
         Template
-        <select className="select" value={templateType} onChange={(e) => setTemplateType(e.target.value as any)}>
-          <option value="SWAP_CAP_HOOK">SwapCapHook</option>
-          <option value="WHITELIST_HOOK">WhitelistHook</option>
+        <select className="select" value={templateType} onChange={(e) => handleTemplateChange(e.target.value)}>
+          {templates.map((candidate) => (
+            <option key={candidate.type} value={candidate.type}>{candidate.label}</option>
+          ))}
         </select>
-        <p className="help">
-          SwapCap enforces a max amountIn per swap. Whitelist only allows specific traders to swap.
-        </p>
+        <p className="help">{template.description}</p>
       </label>
-      {templateType === 'SWAP_CAP_HOOK' ? (
-        <label>
-          capAmountIn
-          <input className="input" value={capAmountIn} onChange={(e) => setCapAmountIn(e.target.value)} />
-        </label>
-      ) : (
-        <label>
-          allowlist (comma-separated)
-          <input className="input" value={allowlist} onChange={(e) => setAllowlist(e.target.value)} />
+      {Object.entries(template.paramsSchema.properties).map(([key, property]) => (
+        <label key={key}>
+          {property.type === 'array' ? `${property.title} (comma-separated)` : property.title}
+          <input
+            className="input"
+            inputMode={property.type === 'integer' ? 'numeric' : undefined}
+            value={paramValues[key] ?? ''}
+            onChange={(e) => setParamValues({ ...paramValues, [key]: e.target.value })}
+          />
+          <p className="help">{property.description}</p>
         </label>
-      )}
+      ))}
       <label>
         Bounty (ytest.usd)
         <input className="input" value={bounty} onChange={(e) => setBounty(e.target.value)} />
@@ -85,11 +204,150 @@ export default function CreateWorkOrderForm() {
           Budget cap for solver quotes and milestone payouts. Keep it small for demo wallets.
         </p>
       </label>
+      <label>
+        Bidding
+        <select
+          className="select"
+          value={biddingMode}
+          onChange={(e) => setBiddingMode(e.target.value as 'OPEN' | 'SEALED' | 'DUTCH')}
+        >
+          <option value="OPEN">Open bids</option>
+          <option value="SEALED">Sealed bids</option>
+          <option value="DUTCH">Reverse Dutch auction</option>
+        </select>
+        <p className="help">
+          {biddingMode === 'SEALED'
+            ? 'Solvers commit to a hidden quote during bidding and reveal it afterwards, so late bidders cannot undercut quotes they have already seen.'
+            : biddingMode === 'DUTCH'
+              ? 'The offered price starts low and rises on a schedule up to the bounty. The first solver to accept wins immediately.'
+              : 'Quotes are public as soon as they are posted; the best one is picked when bidding closes.'}
+        </p>
+      </label>
+      {biddingMode === 'DUTCH' ? (
+        <>
+          <label>
+            Auction start price (ytest.usd)
+            <input className="input" value={dutchStartPrice} onChange={(e) => setDutchStartPrice(e.target.value)} />
+          </label>
+          <label>
+            Price step (seconds)
+            <input
+              className="input"
+              inputMode="numeric"
+              placeholder="default: a tenth of the bidding window"
+              value={dutchStepSeconds}
+              onChange={(e) => setDutchStepSeconds(e.target.value)}
+            />
+          </label>
+        </>
+      ) : null}
+      {biddingMode !== 'DUTCH' ? (
+        <details>
+          <summary>Race mode (optional)</summary>
+          <label>
+            Racing solvers (2-5)
+            <input
+              className="input"
+              inputMode="numeric"
+              placeholder="off"
+              value={raceSolvers}
+              onChange={(e) => setRaceSolvers(e.target.value)}
+            />
+          </label>
+          <label>
+            Consolation per losing solver (ytest.usd)
+            <input className="input" value={raceConsolation} onChange={(e) => setRaceConsolation(e.target.value)} />
+          </label>
+          <p className="help">
+            Selects the top quotes at once and pays the first delivery that passes verification. Racers still in the
+            race when it is won receive the consolation amount.
+          </p>
+        </details>
+      ) : null}
+      <details>
+        <summary>Quote scoring (optional)</summary>
+        <label>
+          Strategy
+          <select
+            className="select"
+            value={scoringStrategy}
+            onChange={(e) => setScoringStrategy(e.target.value as 'LOWEST_PRICE' | 'WEIGHTED')}
+          >
+            <option value="LOWEST_PRICE">Lowest price (then ETA, then reputation)</option>
+            <option value="WEIGHTED">Weighted price / ETA / reputation</option>
+          </select>
+        </label>
+        {scoringStrategy === 'WEIGHTED'
+          ? (['price', 'eta', 'reputation'] as const).map((key) => (
+              <label key={key}>
+                {`${key} weight`}
+                <input
+                  className="input"
+                  inputMode="decimal"
+                  value={scoringWeights[key] ?? ''}
+                  onChange={(e) => setScoringWeights({ ...scoringWeights, [key]: e.target.value })}
+                />
+              </label>
+            ))
+          : null}
+        <label>
+          Minimum reputation (0-100)
+          <input
+            className="input"
+            inputMode="numeric"
+            placeholder="none"
+            value={minReputation}
+            onChange={(e) => setMinReputation(e.target.value)}
+          />
+        </label>
+        <p className="help">
+          Controls which quote is picked when bidding closes. Solvers below the minimum reputation are never picked
+          automatically; if none qualify the work order expires.
+        </p>
+      </details>
+      <details>
+        <summary>Windows (optional, seconds)</summary>
+        {WINDOW_FIELDS.map(({ key, label }) => (
+          <label key={key}>
+            {label}
+            <input
+              className="input"
+              inputMode="numeric"
+              placeholder="default"
+              value={windowSeconds[key] ?? ''}
+              onChange={(e) => setWindowSeconds({ ...windowSeconds, [key]: e.target.value })}
+            />
+          </label>
+        ))}
+        <p className="help">
+          Override how long each phase lasts for this work order. Long hook specs may need hours of delivery time;
+          demos can run on seconds.
+        </p>
+      </details>
+      <details>
+        <summary>Milestone payouts (optional, % of the selected quote)</summary>
+        {DEFAULT_PAYOUT_SCHEDULE.map(({ key }) => (
+          <label key={key}>
+            {key}
+            <input
+              className="input"
+              inputMode="numeric"
+              value={payoutPercents[key] ?? ''}
+              onChange={(e) => setPayoutPercents({ ...payoutPercents, [key]: e.target.value })}
+            />
+          </label>
+        ))}
+        <p className="help">
+          Percentages must add up to 100. M5 is held back until the challenge window closes and funds the challenge
+          reward, so it cannot be zero.
+        </p>
+      </details>
       <label>
         Requester address (optional)
         <input className="input" value={requesterAddress} onChange={(e) => setRequesterAddress(e.target.value)} />
         <p className="help">
           If set, this address is stored as the requester for this work order and used when creating the Yellow session.
+          Your browser wallet signs the work order, and later quote selection and settlement.
           Leave blank to use the API&apos;s configured Yellow wallet.
         </p>
       </label>
@@ -1,16 +1,40 @@
 'use client';
 
 import { useState } from 'react';
+import { EndSessionTypes } from '@v4shm/shared';
+import { signRequesterAction } from '../../lib/requester';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_BASE ?? 'http://localhost:3001';
 
-export default function EndSessionButton({ workOrderId }: { workOrderId: string }) {
+export default function EndSessionButton(
+  { workOrderId, requesterAddress, revision }: { workOrderId: string; requesterAddress: string | null; revision: number }
+) {
   const [status, setStatus] = useState<string | null>(null);
 
   async function handleClick() {
+    let auth: { signature?: string; issuedAt?: number; revision?: number } = {};
+    if (requesterAddress) {
+      setStatus('Waiting for requester signature...');
+      const issuedAt = Date.now();
+      try {
+        const signature = await signRequesterAction(requesterAddress, EndSessionTypes, {
+          workOrderId,
+          force: true,
+          revision,
+          issuedAt,
+        });
+        auth = { signature, issuedAt, revision };
+      } catch (err) {
+        setStatus(`Error: ${String((err as any)?.message ?? err)}`);
+        return;
+      }
+    }
+
     setStatus('Settling...');
     const res = await fetch(`${API_BASE}/work-orders/${workOrderId}/end-session?force=true`, {
       method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(auth),
     });
 
     if (!res.ok) {
@@ -2,6 +2,8 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { SelectQuoteTypes } from '@v4shm/shared';
+import { signRequesterAction } from '../../lib/requester';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_BASE ?? 'http://localhost:3001';
 
@@ -9,9 +11,16 @@ export default function SelectBestQuoteButton(
   {
     workOrderId,
     biddingEndsAt,
+    requesterAddress,
+    revision,
+    bestQuoteReason,
   }: {
     workOrderId: string;
     biddingEndsAt: number;
+    requesterAddress: string | null;
+    revision: number;
+    // From the API's selection-explain; the server does the ranking.
+    bestQuoteReason: string | null;
   }
 ) {
   const router = useRouter();
@@ -26,11 +35,27 @@ export default function SelectBestQuoteButton(
       // ignore
     }
     setIsLoading(true);
-    setStatus('Selecting...');
 
     try {
+      let auth: { signature?: string; issuedAt?: number; revision?: number } = {};
+      if (requesterAddress) {
+        setStatus('Waiting for requester signature...');
+        const issuedAt = Date.now();
+        const signature = await signRequesterAction(requesterAddress, SelectQuoteTypes, {
+          workOrderId,
+          quoteId: '',
+          force: true,
+          revision,
+          issuedAt,
+        });
+        auth = { signature, issuedAt, revision };
+      }
+
+      setStatus('Selecting...');
       const res = await fetch(`${API_BASE}/work-orders/${workOrderId}/select?force=true`, {
         method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(auth),
       });
 
       if (!res.ok) {
@@ -40,6 +65,8 @@ export default function SelectBestQuoteButton(
 
       setStatus('Selected.');
       router.refresh();
+    } catch (err) {
+      setStatus(`Error: ${String((err as any)?.message ?? err)}`);
     } finally {
       setIsLoading(false);
     }
@@ -53,6 +80,7 @@ export default function SelectBestQuoteButton(
       <button className="button" onClick={handleClick} disabled={isLoading}>
         {label}
       </button>
+      {bestQuoteReason && !status ? <p className="help">Best quote: {bestQuoteReason}</p> : null}
       {status && <p>{status}</p>}
     </div>
   );
@@ -2,17 +2,23 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { SelectQuoteTypes } from '@v4shm/shared';
 import { API_BASE } from '../../lib/api';
+import { signRequesterAction } from '../../lib/requester';
 
 export default function SelectQuoteButton(
   {
     workOrderId,
     quoteId,
     biddingEndsAt,
+    requesterAddress,
+    revision,
   }: {
     workOrderId: string;
     quoteId: string;
     biddingEndsAt: number;
+    requesterAddress: string | null;
+    revision: number;
   }
 ) {
   const router = useRouter();
@@ -27,16 +33,30 @@ export default function SelectQuoteButton(
       // ignore
     }
     setIsLoading(true);
-    setStatus('Selecting...');
 
     const isBiddingOpen = Date.now() < biddingEndsAt;
     const url = `${API_BASE}/work-orders/${workOrderId}/select${isBiddingOpen ? '?force=true' : ''}`;
 
     try {
+      let auth: { signature?: string; issuedAt?: number; revision?: number } = {};
+      if (requesterAddress) {
+        setStatus('Waiting for requester signature...');
+        const issuedAt = Date.now();
+        const signature = await signRequesterAction(requesterAddress, SelectQuoteTypes, {
+          workOrderId,
+          quoteId,
+          force: isBiddingOpen,
+          revision,
+          issuedAt,
+        });
+        auth = { signature, issuedAt, revision };
+      }
+
+      setStatus('Selecting...');
       const res = await fetch(url, {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({ quoteId }),
+        body: JSON.stringify({ quoteId, ...auth }),
       });
 
       if (!res.ok) {
@@ -46,6 +66,8 @@ export default function SelectQuoteButton(
 
       setStatus('Selected.');
       router.refresh();
+    } catch (err) {
+      setStatus(`Error: ${String((err as any)?.message ?? err)}`);
     } finally {
       setIsLoading(false);
     }
@@ -1,7 +1,7 @@
 import Link from 'next/link';
 import CreateWorkOrderForm from './components/CreateWorkOrderForm';
 import { fetchJson } from '../lib/api';
-import type { WorkOrder } from '@v4shm/shared';
+import { HOOK_TEMPLATES, type HookTemplateDefinition, type WorkOrder } from '@v4shm/shared';
 
 function parsePage(value: string | string[] | undefined): number {
   const raw = Array.isArray(value) ? value[0] : value;
@@ -18,6 +18,13 @@ export default async function HomePage({ searchParams }: { searchParams?: { page
     // ignore fetch errors for empty demo
   }
 
+  let templates: HookTemplateDefinition[] = HOOK_TEMPLATES;
+  try {
+    templates = await fetchJson<HookTemplateDefinition[]>('/templates');
+  } catch (err) {
+    // fall back to the bundled registry when the API is unreachable
+  }
+
   const pageSize = 10;
   const page = parsePage(searchParams?.page);
   const totalPages = Math.max(1, Math.ceil(workOrders.length / pageSize));
@@ -41,7 +48,7 @@ export default async function HomePage({ searchParams }: { searchParams?: { page
       </header>
 
       <section className="grid">
-        <CreateWorkOrderForm />
+        <CreateWorkOrderForm templates={templates} />
 
         <div className="card">
           <h3>Live Work Orders</h3>
@@ -2,35 +2,22 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import type { SelectionExplanation } from '@v4shm/shared';
 import { API_BASE } from '../../../lib/api';
 
 type QuoteLite = { id: string; price: string; etaMinutes: number; createdAt: number };
 
-function parsePrice(value: string): number {
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : Number.POSITIVE_INFINITY;
-}
-
-function pickLowest(quotes: QuoteLite[]): QuoteLite | null {
-  if (quotes.length === 0) return null;
-  return [...quotes].sort((a, b) => {
-    const priceDiff = parsePrice(a.price) - parsePrice(b.price);
-    if (priceDiff !== 0) return priceDiff;
-    const etaDiff = a.etaMinutes - b.etaMinutes;
-    if (etaDiff !== 0) return etaDiff;
-    return a.createdAt - b.createdAt;
-  })[0];
-}
-
 export default function AutoPickQuote({
   workOrderId,
   workOrderStatus,
   selectedQuoteId,
+  requesterSigned,
   quotes,
 }: {
   workOrderId: string;
   workOrderStatus: string;
   selectedQuoteId: string | null;
+  requesterSigned: boolean;
   quotes: QuoteLite[];
 }) {
   const router = useRouter();
@@ -38,9 +25,6 @@ export default function AutoPickQuote({
   const [thirdQuoteSeenAt, setThirdQuoteSeenAt] = useState<number | null>(null);
   const timerRef = useRef<number | null>(null);
   const manualOverrideRef = useRef(false);
-  const quotesRef = useRef<QuoteLite[]>(quotes);
-
-  quotesRef.current = quotes;
 
   useEffect(() => {
     function cancel() {
@@ -82,12 +66,14 @@ export default function AutoPickQuote({
     if (timerRef.current !== null) return;
     if (workOrderStatus !== 'BIDDING') return;
     if (selectedQuoteId) return;
+    // Signed work orders need the requester's wallet for every selection; never pick on their behalf.
+    if (requesterSigned) return;
     if (manualOverrideRef.current) return;
     if (thirdQuoteSeenAt === null) return;
 
     const dueAt = thirdQuoteSeenAt + 3000;
     const delayMs = Math.max(0, dueAt - Date.now());
-    setStatus('Auto-picking lowest quote...');
+    setStatus('Auto-picking best quote...');
 
     timerRef.current = window.setTimeout(async () => {
       timerRef.current = null;
@@ -96,14 +82,20 @@ export default function AutoPickQuote({
       // Bail if the user selected during the delay.
       if (manualOverrideRef.current) return;
 
-      const lowest = pickLowest(quotesRef.current);
-      if (!lowest) return;
-
       try {
+        // The server ranks quotes under the work order's scoring policy.
+        const explainRes = await fetch(`${API_BASE}/work-orders/${workOrderId}/selection-explain`);
+        if (!explainRes.ok) return;
+        const explanation = (await explainRes.json()) as SelectionExplanation;
+        if (!explanation.winnerQuoteId) {
+          setStatus(`Not auto-picking: ${explanation.reason}`);
+          return;
+        }
+
         const res = await fetch(`${API_BASE}/work-orders/${workOrderId}/select?force=true`, {
           method: 'POST',
           headers: { 'content-type': 'application/json' },
-          body: JSON.stringify({ quoteId: lowest.id }),
+          body: JSON.stringify({ quoteId: explanation.winnerQuoteId }),
         });
         if (!res.ok) return;
         router.refresh();
@@ -115,7 +107,7 @@ export default function AutoPickQuote({
     return () => {
       cancel();
     };
-  }, [selectedQuoteId, thirdQuoteSeenAt, workOrderId, workOrderStatus, router]);
+  }, [requesterSigned, selectedQuoteId, thirdQuoteSeenAt, workOrderId, workOrderStatus, router]);
 
   useEffect(() => {
     if (!selectedQuoteId) return;
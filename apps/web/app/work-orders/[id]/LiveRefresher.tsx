@@ -65,19 +65,33 @@ export default function LiveRefresher({ workOrderId }: { workOrderId: string })
         didInitialConnect.current = true;
       };
       ws.onmessage = (event) => {
-        scheduleRefresh();
         try {
           const parsed = JSON.parse(String((event as MessageEvent).data ?? ''));
           const type = String(parsed?.type ?? '');
+          // Log output is rendered by VerificationTerminal and doesn't change the page data.
+          if (type === 'verificationLog') return;
+          scheduleRefresh();
           if (type === 'verificationPassed' || type === 'workOrderCompleted') {
             triggerFlash('success');
-          } else if (type === 'verificationFailed' || type === 'workOrderExpired' || type === 'challengeSucceeded') {
+          } else if (
+            type === 'verificationFailed'
+            || type === 'workOrderExpired'
+            || type === 'challengeSucceeded'
+            || type === 'workOrderCancelled'
+          ) {
             triggerFlash('fail');
-          } else if (type === 'milestonePaid' || type === 'quoteRewardPaid' || type === 'challengeRewardPaid') {
+          } else if (
+            type === 'milestonePaid'
+            || type === 'quoteRewardPaid'
+            || type === 'challengeRewardPaid'
+            || type === 'killFeePaid'
+            || type === 'refundPaid'
+          ) {
             triggerFlash('milestone');
           }
         } catch {
-          // ignore malformed WS messages
+          // Unparseable messages still refresh the page.
+          scheduleRefresh();
         }
       };
       ws.onerror = () => {
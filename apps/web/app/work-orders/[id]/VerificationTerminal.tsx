@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { API_BASE } from '../../../lib/api';
+
+const MAX_LINES = 400;
+// Subscribe before the submission arrives so the first lines of a run are not missed.
+const LISTEN_STATUSES = ['SELECTED', 'VERIFYING', 'CHALLENGED'];
+
+type LogLine = { id: number; stage: string; stream: 'stdout' | 'stderr'; text: string };
+
+function toWsBaseUrl(apiBase: string) {
+  const trimmed = apiBase.trim();
+  if (trimmed.startsWith('https://')) return `wss://${trimmed.slice('https://'.length)}`;
+  if (trimmed.startsWith('http://')) return `ws://${trimmed.slice('http://'.length)}`;
+  return trimmed;
+}
+
+// Live forge output relayed by the API as `verificationLog` events. Lines are kept for the session
+// only; the full logs are in the verification report once the run finishes.
+export default function VerificationTerminal({ workOrderId, status }: { workOrderId: string; status: string }) {
+  const listening = LISTEN_STATUSES.includes(status);
+  const [lines, setLines] = useState<LogLine[]>([]);
+  const nextId = useRef(0);
+  const partial = useRef<Record<string, string>>({});
+  const terminalRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+    const ws = new WebSocket(`${toWsBaseUrl(API_BASE)}/work-orders/${workOrderId}/ws`);
+    ws.onmessage = (event) => {
+      try {
+        const parsed = JSON.parse(String((event as MessageEvent).data ?? ''));
+        if (parsed?.type !== 'verificationLog') return;
+        const { stage, stream, chunk } = parsed.payload as { stage: string; stream: 'stdout' | 'stderr'; chunk: string };
+        // Chunks split lines arbitrarily; hold back the unterminated tail until the rest arrives.
+        const key = `${stage}:${stream}`;
+        const parts = `${partial.current[key] ?? ''}${chunk}`.split('\n');
+        partial.current[key] = parts.pop() ?? '';
+        if (parts.length === 0) return;
+        setLines((prev) => [
+          ...prev,
+          ...parts.map((text) => ({ id: nextId.current++, stage, stream, text })),
+        ].slice(-MAX_LINES));
+      } catch {
+        // ignore malformed WS messages
+      }
+    };
+    return () => ws.close();
+  }, [workOrderId, listening]);
+
+  useEffect(() => {
+    const terminal = terminalRef.current;
+    if (terminal) terminal.scrollTop = terminal.scrollHeight;
+  }, [lines]);
+
+  if (status !== 'VERIFYING' && lines.length === 0) return null;
+
+  return (
+    <div ref={terminalRef} className="terminal" aria-live="polite">
+      {lines.length === 0 ? <span className="terminal-muted">Waiting for verifier output...</span> : null}
+      {lines.map((line) => (
+        <div key={line.id} className={line.stream === 'stderr' ? 'terminal-stderr' : undefined}>
+          <span className="terminal-muted">[{line.stage}]</span> {line.text}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,10 +3,22 @@ import { fetchJson } from '../../../lib/api';
 import LiveRefresher from './LiveRefresher';
 import AutoPickQuote from './AutoPickQuote';
 import ReportBurst from './ReportBurst';
+import VerificationTerminal from './VerificationTerminal';
+import CancelWorkOrderButton from '../../components/CancelWorkOrderButton';
 import EndSessionButton from '../../components/EndSessionButton';
 import SelectBestQuoteButton from '../../components/SelectBestQuoteButton';
 import SelectQuoteButton from '../../components/SelectQuoteButton';
-import type { WorkOrder, QuotePayload, SubmissionPayload, PaymentEvent, VerificationReport } from '@v4shm/shared';
+import { dutchPriceAt, nextDutchPriceAt, recoverVerificationAttestationSigner } from '@v4shm/shared';
+import type {
+  WorkOrder,
+  QuotePayload,
+  QuoteCommitmentPayload,
+  SubmissionPayload,
+  PaymentEvent,
+  SelectionExplanation,
+  ProofGasBreakdown,
+  VerificationReport,
+} from '@v4shm/shared';
 
 function formatQuotePrice(amount: string, currency: string) {
   const trimmed = String(amount ?? '').trim();
@@ -40,18 +52,40 @@ function reputationTierByRank(rank: number, total: number) {
   return { emoji: '🆕', label: 'New' };
 }
 
+function reportSigner(report: VerificationReport) {
+  if (!report.attestation) return null;
+  try {
+    return recoverVerificationAttestationSigner(report.attestation.message, report.attestation.signature);
+  } catch {
+    return null;
+  }
+}
+
+const PROOF_GAS_STEPS: Array<[keyof ProofGasBreakdown, string]> = [
+  ['deploy', 'deploy'],
+  ['initialize', 'initialize'],
+  ['addLiquidity', 'add liquidity'],
+  ['swap', 'swap'],
+  ['negativeSwap', 'negative swap'],
+];
+
 export default async function WorkOrderPage({ params }: { params: { id: string } }) {
   const id = params.id;
   let workOrder: WorkOrder | null = null;
   let quotes: QuotePayload[] = [];
+  let commitments: QuoteCommitmentPayload[] = [];
   let submissions: SubmissionPayload[] = [];
   let payments: PaymentEvent[] = [];
   let report: VerificationReport | null = null;
+  let explanation: SelectionExplanation | null = null;
   let solverStats: Array<{ stats: any; reputation: any }> = [];
 
   try {
     workOrder = await fetchJson<WorkOrder>(`/work-orders/${id}`);
     quotes = await fetchJson<QuotePayload[]>(`/work-orders/${id}/quotes`);
+    if (workOrder.bidding.mode === 'SEALED') {
+      commitments = await fetchJson<QuoteCommitmentPayload[]>(`/work-orders/${id}/quote-commitments`);
+    }
     submissions = await fetchJson<SubmissionPayload[]>(`/work-orders/${id}/submissions`);
     payments = await fetchJson<PaymentEvent[]>(`/work-orders/${id}/payments`);
     try {
@@ -59,6 +93,11 @@ export default async function WorkOrderPage({ params }: { params: { id: string }
     } catch {
       solverStats = [];
     }
+    try {
+      explanation = await fetchJson<SelectionExplanation>(`/work-orders/${id}/selection-explain`);
+    } catch {
+      explanation = null;
+    }
     try {
       report = await fetchJson<VerificationReport>(`/work-orders/${id}/verification`);
     } catch {
@@ -91,6 +130,16 @@ export default async function WorkOrderPage({ params }: { params: { id: string }
       return a.solverAddress.localeCompare(b.solverAddress);
     });
   const solverRank = new Map(rankedSolvers.map((row, idx) => [row.solverAddress, idx]));
+  const signingRequester = workOrder.requesterSignature ? workOrder.requesterAddress ?? null : null;
+  const sealed = workOrder.bidding.mode === 'SEALED';
+  const dutchAuction = workOrder.bidding.mode === 'DUTCH' ? workOrder.bidding.dutchAuction ?? null : null;
+  const renderedAt = Date.now();
+  const nextAuctionPriceAt = dutchAuction ? nextDutchPriceAt(dutchAuction, renderedAt) : null;
+  // Manual selection opens during open bidding, or during the reveal phase of a sealed-bid order.
+  // Dutch auctions are closed by a solver accepting the price, never by the requester.
+  const selectionEndsAt = sealed
+    ? (workOrder.status === 'REVEAL' ? workOrder.bidding.revealEndsAt : null)
+    : (workOrder.status === 'BIDDING' && !dutchAuction ? workOrder.bidding.biddingEndsAt : null);
   const paidMilestones = new Set(
     payments
       .filter((payment) => payment.milestoneKey)
@@ -112,12 +161,24 @@ export default async function WorkOrderPage({ params }: { params: { id: string }
           <p className="badge">{workOrder.status}</p>
           <p>Template: {workOrder.templateType}</p>
           <p>Bounty: {workOrder.bounty.amount} {workOrder.bounty.currency}</p>
-          <p>Bidding ends: {new Date(workOrder.bidding.biddingEndsAt).toLocaleTimeString()}</p>
-          {workOrder.status === 'BIDDING' ? (
+          <p>Bidding{sealed ? ' (sealed)' : dutchAuction ? ' (Dutch auction)' : ''} ends: {new Date(workOrder.bidding.biddingEndsAt).toLocaleTimeString()}</p>
+          {dutchAuction && workOrder.status === 'BIDDING' ? (
+            <p>
+              Auction price: {formatQuotePrice(dutchPriceAt(dutchAuction, workOrder.bounty.amount, renderedAt), workOrder.bounty.currency)}
+              {nextAuctionPriceAt ? ` (rises at ${new Date(nextAuctionPriceAt).toLocaleTimeString()})` : ' (at bounty)'}
+            </p>
+          ) : null}
+          {workOrder.bidding.revealEndsAt ? (
+            <p>Reveal ends: {new Date(workOrder.bidding.revealEndsAt).toLocaleTimeString()}</p>
+          ) : null}
+          {selectionEndsAt !== null ? (
             <div className="section">
               <SelectBestQuoteButton
                 workOrderId={workOrder.id}
-                biddingEndsAt={workOrder.bidding.biddingEndsAt}
+                biddingEndsAt={selectionEndsAt}
+                requesterAddress={signingRequester}
+                revision={workOrder.revision ?? 0}
+                bestQuoteReason={explanation?.reason ?? null}
               />
             </div>
           ) : null}
@@ -130,7 +191,20 @@ export default async function WorkOrderPage({ params }: { params: { id: string }
           ) : null}
           {workOrder.status === 'PASSED_PENDING_CHALLENGE' ? (
             <div className="section">
-              <EndSessionButton workOrderId={workOrder.id} />
+              <EndSessionButton
+                workOrderId={workOrder.id}
+                requesterAddress={signingRequester}
+                revision={workOrder.revision ?? 0}
+              />
+            </div>
+          ) : null}
+          {['BIDDING', 'REVEAL', 'SELECTED', 'FAILED', 'EXPIRED'].includes(workOrder.status) ? (
+            <div className="section">
+              <CancelWorkOrderButton
+                workOrderId={workOrder.id}
+                requesterAddress={signingRequester}
+                revision={workOrder.revision ?? 0}
+              />
             </div>
           ) : null}
         </div>
@@ -138,8 +212,30 @@ export default async function WorkOrderPage({ params }: { params: { id: string }
           <h3>Selection</h3>
           <p>Selected quote: {workOrder.selection.selectedQuoteId ?? 'n/a'}</p>
           <p>Selected solver: {workOrder.selection.selectedSolverId ?? 'n/a'}</p>
+          {workOrder.race ? (
+            <p>
+              Race: top {workOrder.race.solvers} solvers, consolation {formatQuotePrice(workOrder.race.consolationAmount, workOrder.bounty.currency)}
+            </p>
+          ) : null}
+          {workOrder.selection.racers?.length ? (
+            <ul>
+              {workOrder.selection.racers.map((racer) => (
+                <li key={racer.quoteId}>
+                  {racer.solverAddress}
+                  {(workOrder.selection.attemptedQuoteIds ?? []).includes(racer.quoteId) ? ' (failed)' : ''}
+                  {(workOrder.verification.racers ?? []).some((entry) => entry.quoteId === racer.quoteId) ? ' (verifying)' : ''}
+                </li>
+              ))}
+            </ul>
+          ) : null}
           <p>Selected at: {workOrder.selection.selectedAt ? new Date(workOrder.selection.selectedAt).toLocaleTimeString() : 'n/a'}</p>
-          <p>Requester: {workOrder.requesterAddress ?? 'n/a'}</p>
+          <p>
+            Scoring: {workOrder.scoringPolicy.strategy === 'WEIGHTED' && workOrder.scoringPolicy.weights
+              ? `weighted (price ${workOrder.scoringPolicy.weights.price}, ETA ${workOrder.scoringPolicy.weights.eta}, reputation ${workOrder.scoringPolicy.weights.reputation})`
+              : 'lowest price'}
+            {workOrder.scoringPolicy.minReputation > 0 ? `, min reputation ${workOrder.scoringPolicy.minReputation}` : ''}
+          </p>
+          <p>Requester: {workOrder.requesterAddress ?? 'n/a'}{signingRequester ? ' (signed)' : ''}</p>
           <p>Yellow session: {workOrder.yellow.yellowSessionId ?? 'n/a'}</p>
           <p>Settlement: {workOrder.yellow.settlementTxId ?? 'n/a'}</p>
         </div>
@@ -152,6 +248,7 @@ export default async function WorkOrderPage({ params }: { params: { id: string }
             workOrderId={workOrder.id}
             workOrderStatus={workOrder.status}
             selectedQuoteId={workOrder.selection.selectedQuoteId}
+            requesterSigned={signingRequester !== null}
             quotes={quotes.map((quote) => ({
               id: quote.id,
               price: quote.price,
@@ -159,6 +256,12 @@ export default async function WorkOrderPage({ params }: { params: { id: string }
               createdAt: quote.createdAt,
             }))}
           />
+          {sealed ? (
+            <p className="help">
+              Sealed bids: {commitments.length} commitment{commitments.length === 1 ? '' : 's'},
+              {' '}{quotes.length} revealed. Quotes stay hidden until bidding closes.
+            </p>
+          ) : null}
           {quotes.length === 0 ? <p>No quotes yet.</p> : (
             <div className="grid">
               {quotes.map((quote) => {
@@ -168,6 +271,7 @@ export default async function WorkOrderPage({ params }: { params: { id: string }
                 const tier = reputationTierByRank(rank, rankedSolvers.length);
                 const isSelected = quote.id === workOrder.selection.selectedQuoteId;
                 const className = isSelected ? 'card quote-selected quote-selected-blink' : 'card';
+                const scored = explanation?.quotes.find((entry) => entry.quoteId === quote.id);
 
                 return (
                   <div key={quote.id} className={className}>
@@ -177,11 +281,21 @@ export default async function WorkOrderPage({ params }: { params: { id: string }
                       {' '}· ETA to finish: {formatEtaMinutes(quote.etaMinutes)}
                     </p>
                     <p>Reputation: {tier.emoji} {tier.label}{score > 0 ? ` (${score})` : ''}</p>
-                    {workOrder.status === 'BIDDING' ? (
+                    {quote.revision ? <p className="help">Revised {quote.revision}x</p> : null}
+                    {scored ? (
+                      <p className="help">
+                        {scored.eligible
+                          ? `Rank #${scored.rank}${scored.score !== null ? ` · score ${scored.score}` : ''}`
+                          : `Not eligible: ${scored.ineligibleReason}`}
+                      </p>
+                    ) : null}
+                    {selectionEndsAt !== null ? (
                       <SelectQuoteButton
                         workOrderId={workOrder.id}
                         quoteId={quote.id}
-                        biddingEndsAt={workOrder.bidding.biddingEndsAt}
+                        biddingEndsAt={selectionEndsAt}
+                        requesterAddress={signingRequester}
+                        revision={workOrder.revision ?? 0}
                       />
                     ) : null}
                     {quote.id === workOrder.selection.selectedQuoteId ? <p className="badge">Selected</p> : null}
@@ -209,12 +323,61 @@ export default async function WorkOrderPage({ params }: { params: { id: string }
       <section className="section grid two">
         <div className="card">
           <h3>Verification Report</h3>
+          {workOrder.status === 'VERIFYING' ? (
+            <p className="help">
+              Verifying{workOrder.verification.stage ? `: ${workOrder.verification.stage.replace('_', ' ')} stage` : ' (queued)'}
+              {workOrder.verification.retryAt
+                ? ` · retrying at ${new Date(workOrder.verification.retryAt).toLocaleTimeString()}`
+                : ''}
+            </p>
+          ) : null}
+          <VerificationTerminal workOrderId={workOrder.id} status={workOrder.status} />
           {report ? (
             <>
               <ReportBurst status={report.status} />
               <p>
                 Status: <span className={`badge ${report.status === 'PASS' ? 'badge-success' : 'badge-fail'}`}>{report.status}</span>
               </p>
+              {report.failure ? (
+                <p className="help">
+                  Failed at {report.failure.stage}: {report.failure.code} (blame: {report.failure.blame}
+                  {report.failure.retryable ? ', retryable' : ''}) {report.failure.message}
+                </p>
+              ) : null}
+              {report.cachedStages?.length ? (
+                <p className="help">Reused from cache: {report.cachedStages.join(', ')}</p>
+              ) : null}
+              {report.harnessHash ? (
+                <p className="help">
+                  Harness: {report.harnessHash.slice(0, 10)}...
+                  {workOrder.artifacts.harnessVersion ? ` (${workOrder.artifacts.harnessVersion})` : ''}
+                </p>
+              ) : null}
+              <p className="help">Signed by verifier: {reportSigner(report) ?? 'unsigned'}</p>
+              {report.verifierResults?.length ? (
+                <div className="help">
+                  Verifier quorum: {report.quorum} of {report.verifierResults.length}
+                  {report.verifierResults.map((result) => (
+                    <div key={result.verifierUrl}>
+                      {result.verifierUrl}: {result.status}
+                      {result.error ? ` (${result.error})` : ''}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+              {report.metrics.gas ? (
+                <div className="help">
+                  Gas:{' '}
+                  {PROOF_GAS_STEPS.map(([step, label]) => `${label} ${report.metrics.gas?.proof[step] ?? 'n/a'}`).join(' · ')}
+                  {report.metrics.gas.tests.map((contract) => (
+                    <div key={contract.contract}>
+                      {contract.contract}
+                      {contract.deploymentGas !== null ? ` (deployment ${contract.deploymentGas})` : ''}:{' '}
+                      {contract.functions.map((fn) => `${fn.name} avg ${fn.avg} over ${fn.calls} calls`).join(', ') || 'no calls'}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
               <p>Hook: {report.proof.hookAddress}</p>
               <p>Pool ID: {report.proof.poolId.slice(0, 10)}...</p>
               <p>TxIDs: {report.proof.txIds.length}</p>
@@ -0,0 +1,41 @@
+import { DOMAIN } from '@v4shm/shared';
+
+type Eip1193Provider = {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+};
+
+const EIP712_DOMAIN_TYPE = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+];
+
+// Signs a requester action (WorkOrder / SelectQuote / EndSession / CancelWorkOrder) with the browser wallet.
+export async function signRequesterAction(
+  requesterAddress: string,
+  types: Record<string, Array<{ name: string; type: string }>>,
+  message: Record<string, unknown>
+): Promise<string> {
+  const ethereum = (window as unknown as { ethereum?: Eip1193Provider }).ethereum;
+  if (!ethereum) {
+    throw new Error('No browser wallet found to sign as requester');
+  }
+
+  const accounts = (await ethereum.request({ method: 'eth_requestAccounts' })) as string[];
+  if (!accounts.some((account) => account.toLowerCase() === requesterAddress.toLowerCase())) {
+    throw new Error(`Connect wallet ${requesterAddress} to sign as requester`);
+  }
+
+  const primaryType = Object.keys(types)[0];
+  const typedData = {
+    types: { EIP712Domain: EIP712_DOMAIN_TYPE, ...types },
+    domain: DOMAIN,
+    primaryType,
+    message,
+  };
+  return (await ethereum.request({
+    method: 'eth_signTypedData_v4',
+    params: [requesterAddress, JSON.stringify(typedData)],
+  })) as string;
+}
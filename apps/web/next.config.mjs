@@ -8,6 +8,11 @@ const nextConfig = {
       ...(config.resolve.alias ?? {}),
       'pino-pretty': false,
     };
+    // Workspace packages are resolved from source (tsconfig paths) and use NodeNext-style `.js` specifiers.
+    config.resolve.extensionAlias = {
+      ...(config.resolve.extensionAlias ?? {}),
+      '.js': ['.ts', '.tsx', '.js'],
+    };
     return config;
   },
 };
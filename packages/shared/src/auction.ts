@@ -0,0 +1,24 @@
+import type { DutchAuction } from './types.js';
+import { fromUnits, toUnits } from './units.js';
+
+// Number of completed steps at `now`, capped at auction.steps.
+export function dutchAuctionStep(auction: DutchAuction, now: number): number {
+  if (now <= auction.startsAt) return 0;
+  return Math.min(auction.steps, Math.floor((now - auction.startsAt) / auction.stepMs));
+}
+
+// Offered price at `now`, rising from startPrice to maxPrice (the bounty).
+export function dutchPriceAt(auction: DutchAuction, maxPrice: string, now: number): string {
+  const start = toUnits(auction.startPrice);
+  const end = toUnits(maxPrice);
+  if (end <= start || auction.steps <= 0) return fromUnits(end > start ? end : start);
+  const step = BigInt(dutchAuctionStep(auction, now));
+  return fromUnits(start + ((end - start) * step) / BigInt(auction.steps));
+}
+
+// When the price next rises, or null once it has reached the bounty.
+export function nextDutchPriceAt(auction: DutchAuction, now: number): number | null {
+  const step = dutchAuctionStep(auction, now);
+  if (step >= auction.steps) return null;
+  return auction.startsAt + (step + 1) * auction.stepMs;
+}
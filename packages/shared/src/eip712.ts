@@ -1,5 +1,7 @@
 import { TypedDataDomain, TypedDataField, Wallet, verifyTypedData } from 'ethers';
 import { CHAIN_ID, PROJECT_NAME, PROJECT_VERSION, VERIFYING_CONTRACT } from './constants.js';
+import { verificationTxIdsRoot } from './hash.js';
+import type { VerificationReport } from './types.js';
 
 export const DOMAIN: TypedDataDomain = {
   name: PROJECT_NAME,
@@ -17,6 +19,41 @@ export const QuoteTypes: Record<string, TypedDataField[]> = {
   ],
 };
 
+// Binds a revision to one quote and its next revision number, so earlier quote signatures cannot be replayed.
+export const QuoteRevisionTypes: Record<string, TypedDataField[]> = {
+  QuoteRevision: [
+    { name: 'workOrderId', type: 'string' },
+    { name: 'quoteId', type: 'string' },
+    { name: 'revision', type: 'uint256' },
+    { name: 'price', type: 'string' },
+    { name: 'etaMinutes', type: 'uint256' },
+    { name: 'validUntil', type: 'uint256' },
+  ],
+};
+
+export const QuoteCommitmentTypes: Record<string, TypedDataField[]> = {
+  QuoteCommitment: [
+    { name: 'workOrderId', type: 'string' },
+    { name: 'commitmentHash', type: 'string' },
+  ],
+};
+
+export const QuoteWithdrawalTypes: Record<string, TypedDataField[]> = {
+  QuoteWithdrawal: [
+    { name: 'workOrderId', type: 'string' },
+    { name: 'quoteId', type: 'string' },
+  ],
+};
+
+export const AuctionAcceptanceTypes: Record<string, TypedDataField[]> = {
+  AuctionAcceptance: [
+    { name: 'workOrderId', type: 'string' },
+    { name: 'price', type: 'string' },
+    { name: 'etaMinutes', type: 'uint256' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+};
+
 export const SubmissionTypes: Record<string, TypedDataField[]> = {
   Submission: [
     { name: 'workOrderId', type: 'string' },
@@ -34,6 +71,72 @@ export const ChallengeTypes: Record<string, TypedDataField[]> = {
   ],
 };
 
+export const WorkOrderTypes: Record<string, TypedDataField[]> = {
+  WorkOrder: [
+    { name: 'title', type: 'string' },
+    { name: 'templateType', type: 'string' },
+    { name: 'paramsHash', type: 'string' },
+    { name: 'windowsHash', type: 'string' },
+    { name: 'payoutScheduleHash', type: 'string' },
+    { name: 'biddingMode', type: 'string' },
+    { name: 'scoringPolicyHash', type: 'string' },
+    { name: 'dutchAuctionHash', type: 'string' },
+    { name: 'raceHash', type: 'string' },
+    { name: 'bountyCurrency', type: 'string' },
+    { name: 'bountyAmount', type: 'string' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+};
+
+export const SelectQuoteTypes: Record<string, TypedDataField[]> = {
+  SelectQuote: [
+    { name: 'workOrderId', type: 'string' },
+    { name: 'quoteId', type: 'string' },
+    { name: 'force', type: 'bool' },
+    { name: 'revision', type: 'uint256' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+};
+
+export const EndSessionTypes: Record<string, TypedDataField[]> = {
+  EndSession: [
+    { name: 'workOrderId', type: 'string' },
+    { name: 'force', type: 'bool' },
+    { name: 'revision', type: 'uint256' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+};
+
+export const CancelWorkOrderTypes: Record<string, TypedDataField[]> = {
+  CancelWorkOrder: [
+    { name: 'workOrderId', type: 'string' },
+    { name: 'revision', type: 'uint256' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+};
+
+export const VerificationAttestationTypes: Record<string, TypedDataField[]> = {
+  VerificationAttestation: [
+    { name: 'reportId', type: 'string' },
+    { name: 'submissionId', type: 'string' },
+    { name: 'artifactHash', type: 'string' },
+    { name: 'harnessHash', type: 'string' },
+    { name: 'status', type: 'string' },
+    { name: 'milestones', type: 'string[]' },
+    { name: 'txIdsRoot', type: 'string' },
+  ],
+};
+
+export const ChallengeResultTypes: Record<string, TypedDataField[]> = {
+  ChallengeResult: [
+    { name: 'challengeId', type: 'string' },
+    { name: 'workOrderId', type: 'string' },
+    { name: 'submissionId', type: 'string' },
+    { name: 'artifactHash', type: 'string' },
+    { name: 'outcome', type: 'string' },
+  ],
+};
+
 export type QuoteMessage = {
   workOrderId: string;
   price: string;
@@ -41,6 +144,32 @@ export type QuoteMessage = {
   validUntil: number;
 };
 
+export type QuoteRevisionMessage = {
+  workOrderId: string;
+  quoteId: string;
+  revision: number;
+  price: string;
+  etaMinutes: number;
+  validUntil: number;
+};
+
+export type QuoteCommitmentMessage = {
+  workOrderId: string;
+  commitmentHash: string;
+};
+
+export type QuoteWithdrawalMessage = {
+  workOrderId: string;
+  quoteId: string;
+};
+
+export type AuctionAcceptanceMessage = {
+  workOrderId: string;
+  price: string;
+  etaMinutes: number;
+  issuedAt: number;
+};
+
 export type SubmissionMessage = {
   workOrderId: string;
   repoUrl: string;
@@ -54,6 +183,63 @@ export type ChallengeMessage = {
   reproductionHash: string;
 };
 
+export type WorkOrderMessage = {
+  title: string;
+  templateType: string;
+  paramsHash: string;
+  windowsHash: string;
+  payoutScheduleHash: string;
+  biddingMode: string;
+  scoringPolicyHash: string;
+  dutchAuctionHash: string;
+  raceHash: string;
+  bountyCurrency: string;
+  bountyAmount: string;
+  issuedAt: number;
+};
+
+export type SelectQuoteMessage = {
+  workOrderId: string;
+  // Empty string means "select the best quote".
+  quoteId: string;
+  force: boolean;
+  // The work order's `revision` when the requester signed.
+  revision: number;
+  issuedAt: number;
+};
+
+export type EndSessionMessage = {
+  workOrderId: string;
+  force: boolean;
+  revision: number;
+  issuedAt: number;
+};
+
+export type CancelWorkOrderMessage = {
+  workOrderId: string;
+  revision: number;
+  issuedAt: number;
+};
+
+export type VerificationAttestationMessage = {
+  reportId: string;
+  submissionId: string;
+  artifactHash: string;
+  harnessHash: string;
+  // PENDING attests milestones passed while the run is still going; it commits to no transactions yet.
+  status: 'PASS' | 'FAIL' | 'PENDING';
+  milestones: string[];
+  txIdsRoot: string;
+};
+
+export type ChallengeResultMessage = {
+  challengeId: string;
+  workOrderId: string;
+  submissionId: string;
+  artifactHash: string;
+  outcome: 'SUCCESS' | 'REJECTED' | 'ERROR';
+};
+
 export async function signQuote(message: QuoteMessage, privateKey: string): Promise<string> {
   const wallet = new Wallet(privateKey);
   return wallet.signTypedData(DOMAIN, QuoteTypes, message);
@@ -63,6 +249,42 @@ export function recoverQuoteSigner(message: QuoteMessage, signature: string): st
   return verifyTypedData(DOMAIN, QuoteTypes, message, signature);
 }
 
+export async function signQuoteRevision(message: QuoteRevisionMessage, privateKey: string): Promise<string> {
+  const wallet = new Wallet(privateKey);
+  return wallet.signTypedData(DOMAIN, QuoteRevisionTypes, message);
+}
+
+export function recoverQuoteRevisionSigner(message: QuoteRevisionMessage, signature: string): string {
+  return verifyTypedData(DOMAIN, QuoteRevisionTypes, message, signature);
+}
+
+export async function signQuoteCommitment(message: QuoteCommitmentMessage, privateKey: string): Promise<string> {
+  const wallet = new Wallet(privateKey);
+  return wallet.signTypedData(DOMAIN, QuoteCommitmentTypes, message);
+}
+
+export function recoverQuoteCommitmentSigner(message: QuoteCommitmentMessage, signature: string): string {
+  return verifyTypedData(DOMAIN, QuoteCommitmentTypes, message, signature);
+}
+
+export async function signQuoteWithdrawal(message: QuoteWithdrawalMessage, privateKey: string): Promise<string> {
+  const wallet = new Wallet(privateKey);
+  return wallet.signTypedData(DOMAIN, QuoteWithdrawalTypes, message);
+}
+
+export function recoverQuoteWithdrawalSigner(message: QuoteWithdrawalMessage, signature: string): string {
+  return verifyTypedData(DOMAIN, QuoteWithdrawalTypes, message, signature);
+}
+
+export async function signAuctionAcceptance(message: AuctionAcceptanceMessage, privateKey: string): Promise<string> {
+  const wallet = new Wallet(privateKey);
+  return wallet.signTypedData(DOMAIN, AuctionAcceptanceTypes, message);
+}
+
+export function recoverAuctionAcceptanceSigner(message: AuctionAcceptanceMessage, signature: string): string {
+  return verifyTypedData(DOMAIN, AuctionAcceptanceTypes, message, signature);
+}
+
 export async function signSubmission(message: SubmissionMessage, privateKey: string): Promise<string> {
   const wallet = new Wallet(privateKey);
   return wallet.signTypedData(DOMAIN, SubmissionTypes, message);
@@ -80,3 +302,73 @@ export async function signChallenge(message: ChallengeMessage, privateKey: strin
 export function recoverChallengeSigner(message: ChallengeMessage, signature: string): string {
   return verifyTypedData(DOMAIN, ChallengeTypes, message, signature);
 }
+
+export async function signWorkOrder(message: WorkOrderMessage, privateKey: string): Promise<string> {
+  const wallet = new Wallet(privateKey);
+  return wallet.signTypedData(DOMAIN, WorkOrderTypes, message);
+}
+
+export function recoverWorkOrderSigner(message: WorkOrderMessage, signature: string): string {
+  return verifyTypedData(DOMAIN, WorkOrderTypes, message, signature);
+}
+
+export async function signSelectQuote(message: SelectQuoteMessage, privateKey: string): Promise<string> {
+  const wallet = new Wallet(privateKey);
+  return wallet.signTypedData(DOMAIN, SelectQuoteTypes, message);
+}
+
+export function recoverSelectQuoteSigner(message: SelectQuoteMessage, signature: string): string {
+  return verifyTypedData(DOMAIN, SelectQuoteTypes, message, signature);
+}
+
+export async function signEndSession(message: EndSessionMessage, privateKey: string): Promise<string> {
+  const wallet = new Wallet(privateKey);
+  return wallet.signTypedData(DOMAIN, EndSessionTypes, message);
+}
+
+export function recoverEndSessionSigner(message: EndSessionMessage, signature: string): string {
+  return verifyTypedData(DOMAIN, EndSessionTypes, message, signature);
+}
+
+export async function signCancelWorkOrder(message: CancelWorkOrderMessage, privateKey: string): Promise<string> {
+  const wallet = new Wallet(privateKey);
+  return wallet.signTypedData(DOMAIN, CancelWorkOrderTypes, message);
+}
+
+export function recoverCancelWorkOrderSigner(message: CancelWorkOrderMessage, signature: string): string {
+  return verifyTypedData(DOMAIN, CancelWorkOrderTypes, message, signature);
+}
+
+export async function signVerificationAttestation(
+  message: VerificationAttestationMessage,
+  privateKey: string
+): Promise<string> {
+  const wallet = new Wallet(privateKey);
+  return wallet.signTypedData(DOMAIN, VerificationAttestationTypes, message);
+}
+
+export function recoverVerificationAttestationSigner(message: VerificationAttestationMessage, signature: string): string {
+  return verifyTypedData(DOMAIN, VerificationAttestationTypes, message, signature);
+}
+
+export async function signChallengeResult(message: ChallengeResultMessage, privateKey: string): Promise<string> {
+  const wallet = new Wallet(privateKey);
+  return wallet.signTypedData(DOMAIN, ChallengeResultTypes, message);
+}
+
+export function recoverChallengeResultSigner(message: ChallengeResultMessage, signature: string): string {
+  return verifyTypedData(DOMAIN, ChallengeResultTypes, message, signature);
+}
+
+// The attestation a finished report is signed with; `milestones` are the milestones it passed.
+export function reportAttestationMessage(report: VerificationReport, milestones: string[]): VerificationAttestationMessage {
+  return {
+    reportId: report.id,
+    submissionId: report.submissionId,
+    artifactHash: report.artifactHash,
+    harnessHash: report.harnessHash ?? '',
+    status: report.status,
+    milestones,
+    txIdsRoot: verificationTxIdsRoot(report.proof.txIds),
+  };
+}
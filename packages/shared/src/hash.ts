@@ -3,3 +3,29 @@ import { sha256, toUtf8Bytes } from 'ethers';
 export function sha256Hex(input: string): string {
   return sha256(toUtf8Bytes(input));
 }
+
+// Sealed-bid commitment over the quote terms a solver reveals later.
+export function quoteCommitmentHash(input: {
+  workOrderId: string;
+  solverAddress: string;
+  price: string;
+  etaMinutes: number;
+  validUntil: number;
+  salt: string;
+}): string {
+  return sha256Hex(
+    JSON.stringify([
+      input.workOrderId,
+      input.solverAddress.toLowerCase(),
+      input.price,
+      input.etaMinutes,
+      input.validUntil,
+      input.salt,
+    ])
+  );
+}
+
+// Commitment to a report's proof transactions, in order, for verification attestations.
+export function verificationTxIdsRoot(txIds: string[]): string {
+  return sha256Hex(JSON.stringify(txIds.map((txId) => txId.toLowerCase())));
+}
@@ -2,3 +2,6 @@ export * from './constants.js';
 export * from './types.js';
 export * from './eip712.js';
 export * from './hash.js';
+export * from './templates.js';
+export * from './auction.js';
+export * from './units.js';
@@ -0,0 +1,204 @@
+import type { MilestoneKey, WorkOrderTemplate } from './types.js';
+
+// The JSON Schema subset templates use to describe their params.
+export type TemplateParamSchema =
+  | {
+      type: 'integer';
+      title: string;
+      description: string;
+      minimum?: number;
+      maximum?: number;
+      default?: number;
+    }
+  | {
+      type: 'array';
+      title: string;
+      description: string;
+      items: { type: 'string'; pattern: string };
+      minItems?: number;
+      maxItems?: number;
+      default?: string[];
+    };
+
+export type TemplateParamsSchema = {
+  type: 'object';
+  properties: Record<string, TemplateParamSchema>;
+  required: string[];
+  additionalProperties: false;
+};
+
+export type HookTemplateDefinition = {
+  type: WorkOrderTemplate;
+  label: string;
+  description: string;
+  defaultTitle: string;
+  harness: {
+    // File name the submitted hook is copied to under the harness `src/` directory.
+    hookFile: string;
+    testPath: string;
+    // Test a challenge runs; it fails when the challenger's reproduction breaks the spec.
+    challengeTestPath: string;
+  };
+  paramsSchema: TemplateParamsSchema;
+  // Harness env vars fed from each param. For array params, env[i] receives element i.
+  paramEnv: Record<string, string[]>;
+  // Milestones the verifier can emit for this template, in order.
+  milestones: MilestoneKey[];
+  negativeProof: {
+    // Revert reason the NegativeSwapOutcome event must report.
+    expectedReason: string;
+    // Swap a challenge reproduces when the challenger leaves `amountIn` or `trader` out. `amountIn` is one
+    // above the `amountInAboveParam` param when that is set.
+    challengeDefaults: { amountIn: number; amountInAboveParam?: string; trader: string };
+  };
+};
+
+const ADDRESS_PATTERN = '^0x[0-9a-fA-F]{40}$';
+
+// No template param names this trader, so it is never allowlisted.
+const OUTSIDE_TRADER = '0x0000000000000000000000000000000000000003';
+
+const V4_MILESTONES: MilestoneKey[] = ['M1_COMPILE_OK', 'M2_TESTS_OK', 'M3_DEPLOY_OK', 'M4_V4_POOL_PROOF_OK'];
+
+export const HOOK_TEMPLATES: HookTemplateDefinition[] = [
+  {
+    type: 'SWAP_CAP_HOOK',
+    label: 'SwapCapHook',
+    description: 'Enforces a max amountIn per swap.',
+    defaultTitle: 'Try it: SwapCapHook bounty (cap amountIn per swap)',
+    harness: {
+      hookFile: 'SwapCapHook.sol',
+      testPath: 'test/SwapCapHook.t.sol',
+      challengeTestPath: 'test/Challenge.t.sol',
+    },
+    paramsSchema: {
+      type: 'object',
+      properties: {
+        capAmountIn: {
+          type: 'integer',
+          title: 'capAmountIn',
+          description: 'Largest amountIn a single swap may use.',
+          minimum: 1,
+          maximum: Number.MAX_SAFE_INTEGER,
+          default: 1000,
+        },
+      },
+      required: ['capAmountIn'],
+      additionalProperties: false,
+    },
+    paramEnv: { capAmountIn: ['CAP_AMOUNT_IN'] },
+    milestones: V4_MILESTONES,
+    negativeProof: {
+      expectedReason: 'CAP',
+      challengeDefaults: { amountIn: 1001, amountInAboveParam: 'capAmountIn', trader: OUTSIDE_TRADER },
+    },
+  },
+  {
+    type: 'WHITELIST_HOOK',
+    label: 'WhitelistHook',
+    description: 'Only allows specific traders to swap.',
+    defaultTitle: 'Try it: WhitelistHook bounty (allowlisted traders only)',
+    harness: {
+      hookFile: 'WhitelistHook.sol',
+      testPath: 'test/WhitelistHook.t.sol',
+      challengeTestPath: 'test/Challenge.t.sol',
+    },
+    paramsSchema: {
+      type: 'object',
+      properties: {
+        allowlist: {
+          type: 'array',
+          title: 'allowlist',
+          description: 'The two trader addresses allowed to swap.',
+          items: { type: 'string', pattern: ADDRESS_PATTERN },
+          minItems: 2,
+          maxItems: 2,
+          default: ['0x0000000000000000000000000000000000000001', '0x0000000000000000000000000000000000000002'],
+        },
+      },
+      required: ['allowlist'],
+      additionalProperties: false,
+    },
+    paramEnv: { allowlist: ['ALLOWLIST_A', 'ALLOWLIST_B'] },
+    milestones: V4_MILESTONES,
+    negativeProof: {
+      expectedReason: 'NOT_ALLOWLISTED',
+      challengeDefaults: { amountIn: 1001, trader: OUTSIDE_TRADER },
+    },
+  },
+];
+
+export function getHookTemplate(type: string): HookTemplateDefinition | null {
+  return HOOK_TEMPLATES.find((template) => template.type === type) ?? null;
+}
+
+export function templateParamEnvKeys(): string[] {
+  return [...new Set(HOOK_TEMPLATES.flatMap((template) => Object.values(template.paramEnv).flat()))];
+}
+
+// Field-level errors keyed by param path (e.g. `allowlist[1]`); empty when the params match the schema.
+export function validateTemplateParams(template: HookTemplateDefinition, params: unknown): Record<string, string> {
+  const schema = template.paramsSchema;
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+    return { params: 'must be an object' };
+  }
+
+  const raw = params as Record<string, unknown>;
+  const errors: Record<string, string> = {};
+  for (const key of Object.keys(raw)) {
+    if (!Object.hasOwn(schema.properties, key)) errors[key] = 'unknown param';
+  }
+  for (const key of schema.required) {
+    if (raw[key] === undefined) errors[key] = 'required';
+  }
+
+  for (const [key, property] of Object.entries(schema.properties)) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (property.type === 'integer') {
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        errors[key] = 'must be an integer';
+      } else if (property.minimum !== undefined && value < property.minimum) {
+        errors[key] = `must be >= ${property.minimum}`;
+      } else if (property.maximum !== undefined && value > property.maximum) {
+        errors[key] = `must be <= ${property.maximum}`;
+      }
+      continue;
+    }
+
+    if (!Array.isArray(value)) {
+      errors[key] = 'must be an array';
+      continue;
+    }
+    if (property.minItems !== undefined && value.length < property.minItems) {
+      errors[key] = `must have at least ${property.minItems} items`;
+    } else if (property.maxItems !== undefined && value.length > property.maxItems) {
+      errors[key] = `must have at most ${property.maxItems} items`;
+    }
+    const pattern = new RegExp(property.items.pattern);
+    value.forEach((item, index) => {
+      if (typeof item !== 'string' || !pattern.test(item)) {
+        errors[`${key}[${index}]`] = `must match ${property.items.pattern}`;
+      }
+    });
+  }
+  return errors;
+}
+
+// Harness env for a work order's params. Params are validated at creation, so a missing value is an error.
+export function templateEnv(template: HookTemplateDefinition, params: Record<string, unknown>) {
+  const env: Record<string, string> = {};
+  for (const [key, names] of Object.entries(template.paramEnv)) {
+    const value = params[key];
+    if (value === undefined) throw new Error(`Missing ${template.type} param: ${key}`);
+    if (Array.isArray(value)) {
+      names.forEach((name, index) => {
+        if (value[index] === undefined) throw new Error(`Missing ${template.type} param: ${key}[${index}]`);
+        env[name] = String(value[index]);
+      });
+    } else {
+      for (const name of names) env[name] = String(value);
+    }
+  }
+  return env;
+}
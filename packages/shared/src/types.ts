@@ -1,15 +1,70 @@
+import type { ChallengeResultMessage, VerificationAttestationMessage } from './eip712.js';
+
 export type WorkOrderStatus =
   | 'DRAFT'
   | 'BIDDING'
+  | 'REVEAL'
   | 'SELECTED'
   | 'VERIFYING'
   | 'PASSED_PENDING_CHALLENGE'
   | 'CHALLENGED'
   | 'COMPLETED'
   | 'FAILED'
-  | 'EXPIRED';
+  | 'EXPIRED'
+  | 'CANCELLED';
+
+// A `type` registered in HOOK_TEMPLATES.
+export type WorkOrderTemplate = string;
+
+export type MilestoneKey =
+  | 'M1_COMPILE_OK'
+  | 'M2_TESTS_OK'
+  | 'M3_DEPLOY_OK'
+  | 'M4_V4_POOL_PROOF_OK'
+  | 'M5_NO_CHALLENGE_OR_PATCH_OK';
+
+export type MilestonePayout = { key: MilestoneKey; percent: number };
+
+// OPEN quotes are public as soon as they are posted; SEALED quotes are committed during
+// bidding and revealed afterwards. DUTCH runs a reverse Dutch auction: the offered price rises
+// on a schedule and the first solver to accept it wins.
+export type BiddingMode = 'OPEN' | 'SEALED' | 'DUTCH';
+
+// The price starts at startPrice and rises in equal steps every stepMs, reaching bounty.amount
+// after `steps` steps.
+export type DutchAuction = {
+  startPrice: string;
+  startsAt: number;
+  stepMs: number;
+  steps: number;
+};
+
+// LOWEST_PRICE ranks by price, then ETA, then reputation. WEIGHTED ranks by a blend of the three,
+// each normalised to 0..1 against the best quote. Solvers scoring below minReputation (0-100)
+// are never picked automatically.
+export type ScoringStrategy = 'LOWEST_PRICE' | 'WEIGHTED';
+
+export type ScoringPolicy = {
+  strategy: ScoringStrategy;
+  weights?: { price: number; eta: number; reputation: number };
+  minReputation: number;
+};
+
+// Race mode selects the top `solvers` quotes at once; the first to pass verification wins and
+// every other racer still in the race is paid consolationAmount.
+export type RaceConfig = {
+  solvers: number;
+  consolationAmount: string;
+};
 
-export type WorkOrderTemplate = 'SWAP_CAP_HOOK' | 'WHITELIST_HOOK';
+export type WorkOrderWindows = {
+  biddingMs: number;
+  revealMs: number;
+  deliveryMs: number;
+  verifyMs: number;
+  challengeMs: number;
+  patchMs: number;
+};
 
 export type WorkOrder = {
   id: string;
@@ -20,7 +75,21 @@ export type WorkOrder = {
   params: Record<string, unknown>;
   bounty: { currency: string; amount: string };
   requesterAddress?: string | null;
-  bidding: { biddingEndsAt: number };
+  // EIP-712 `WorkOrder` signature from the requester. When set, select/end-session must be signed too.
+  requesterSignature?: string | null;
+  // Counts status transitions. Requester actions sign it, so a signature stops working once the work order moves on.
+  revision?: number;
+  windows: WorkOrderWindows;
+  scoringPolicy: ScoringPolicy;
+  race?: RaceConfig | null;
+  bidding: {
+    mode: BiddingMode;
+    biddingEndsAt: number;
+    // Set when a sealed-bid work order enters REVEAL.
+    revealEndsAt: number | null;
+    // Set for DUTCH work orders.
+    dutchAuction?: DutchAuction | null;
+  };
   deadlines: {
     deliveryEndsAt: number | null;
     verifyEndsAt: number | null;
@@ -32,6 +101,9 @@ export type WorkOrder = {
     selectedSolverId: string | null;
     selectedAt?: number | null;
     attemptedQuoteIds?: string[];
+    // Race mode: every solver allowed to deliver. selectedQuoteId is the best-ranked racer until
+    // one passes verification, then the winner. Racers whose delivery failed are in attemptedQuoteIds.
+    racers?: Array<{ quoteId: string; solverAddress: string }>;
   };
   challenge: {
     status: 'NONE' | 'OPEN' | 'REJECTED' | 'PATCH_WINDOW' | 'PATCH_PASSED' | 'PATCH_FAILED';
@@ -49,17 +121,38 @@ export type WorkOrder = {
     settlementTxId?: string | null;
   };
   milestones: {
-    payoutSchedule: Array<{ key: string; percent: number }>;
+    payoutSchedule: MilestonePayout[];
   };
   artifacts: {
     harnessVersion: string | null;
     harnessHash: string | null;
   };
-  verification: {
+  verification: VerificationAttempt & {
     verificationReportId: string | null;
+    // Race mode: each racer's delivery is verified on its own while the order stays SELECTED.
+    racers?: RacerVerification[];
   };
 };
 
+export type VerificationAttempt = {
+  // Submission under verification and how many verifier calls it has had.
+  submissionId?: string | null;
+  attempts?: number;
+  // Set after an infrastructure failure (verifier timeout or outage); the sweeper retries then.
+  retryAt?: number | null;
+  lastError?: string | null;
+  // Verifier jobs running the current attempt (one per verifier) and the last stage reported.
+  jobs?: VerifierJobRef[];
+  stage?: VerificationStage | null;
+};
+
+export type RacerVerification = VerificationAttempt & {
+  quoteId: string;
+  solverAddress: string;
+  // The order-level deadline is `deadlines.verifyEndsAt`.
+  verifyEndsAt: number | null;
+};
+
 export type QuotePayload = {
   id: string;
   workOrderId: string;
@@ -69,6 +162,73 @@ export type QuotePayload = {
   validUntil: number;
   signature: string;
   createdAt: number;
+  // Present on sealed-bid reveals.
+  salt?: string;
+  commitmentId?: string;
+  // Missing on quotes stored before revisions existed; treat as ACTIVE.
+  status?: QuoteStatus;
+  // From revision 1 on, `signature` signs a QuoteRevision instead of a Quote.
+  revision?: number;
+  updatedAt?: number;
+};
+
+export type QuoteScore = {
+  quoteId: string;
+  solverAddress: string;
+  price: string;
+  etaMinutes: number;
+  reputation: number;
+  // Each term normalised to 0..1, where 1 is the best among the scored quotes.
+  components: { price: number; eta: number; reputation: number };
+  // Weighted total; null under LOWEST_PRICE.
+  score: number | null;
+  eligible: boolean;
+  ineligibleReason: string | null;
+  // 1-based position among eligible quotes.
+  rank: number | null;
+};
+
+export type SelectionExplanation = {
+  workOrderId: string;
+  status: WorkOrderStatus;
+  policy: ScoringPolicy;
+  selectedQuoteId: string | null;
+  winnerQuoteId: string | null;
+  reason: string;
+  quotes: QuoteScore[];
+};
+
+export type QuoteStatus = 'ACTIVE' | 'WITHDRAWN';
+
+export type QuoteHistoryAction = 'CREATED' | 'REVISED' | 'WITHDRAWN';
+
+export type QuoteHistoryEntry = {
+  id: string;
+  quoteId: string;
+  workOrderId: string;
+  action: QuoteHistoryAction;
+  // Quote as it stood after this action.
+  quote: QuotePayload;
+  createdAt: number;
+};
+
+export type AuctionAcceptancePayload = {
+  workOrderId: string;
+  solverAddress: string;
+  // Must not exceed the auction price when the acceptance arrives; the solver is paid this price.
+  price: string;
+  etaMinutes: number;
+  issuedAt: number;
+  signature: string;
+};
+
+export type QuoteCommitmentPayload = {
+  id: string;
+  workOrderId: string;
+  solverAddress: string;
+  commitmentHash: string;
+  signature: string;
+  createdAt: number;
 };
 
 export type SubmissionPayload = {
@@ -104,17 +264,181 @@ export type VerificationReport = {
     txIds: string[];
   };
   metrics: {
+    // Same as `gas.proof.swap`.
     gasUsedSwap?: string;
     latencySeconds: number;
+    gas?: VerificationGasMetrics;
   };
   producedAt: number;
   artifactHash: string;
+  // Stages reused from an earlier run of the same hook source, harness, template and params.
+  cachedStages?: VerificationStage[];
+  harnessHash?: string;
+  attestation?: SignedVerificationAttestation;
+  // Set on every FAIL report.
+  failure?: VerificationFailure;
+  // Set on reports accepted by a verifier quorum: each verifier's result and how many had to agree.
+  verifierResults?: VerifierResult[];
+  quorum?: number;
+};
+
+// Gas used by each step of the onchain proof, as decimal strings; null for steps that did not run.
+export type ProofGasBreakdown = {
+  // The hook module and its adapter.
+  deploy: string | null;
+  initialize: string | null;
+  addLiquidity: string | null;
+  // The proof swap only, so that hooks are compared on the same swap whatever V4_AGENT_STEPS is.
+  swap: string | null;
+  negativeSwap: string | null;
+};
+
+// One contract's table from `forge test --gas-report`.
+export type ContractGasReport = {
+  contract: string;
+  deploymentGas: number | null;
+  functions: Array<{ name: string; calls: number; min: number; avg: number; median: number; max: number }>;
+};
+
+export type VerificationGasMetrics = {
+  proof: ProofGasBreakdown;
+  tests: ContractGasReport[];
+};
+
+// A job queued on one verifier of the configured set; `jobId` is null if it could not be queued.
+export type VerifierJobRef = {
+  verifierUrl: string;
+  jobId: string | null;
+  error: string | null;
+};
+
+// One verifier's verdict on a submission. ERROR results (failed, unreachable, badly signed or blamed on
+// the verifier's own infrastructure) never count towards a quorum.
+export type VerifierResult = {
+  verifierUrl: string;
+  jobId: string | null;
+  status: 'PASS' | 'FAIL' | 'ERROR';
+  reportId: string | null;
+  signer: string | null;
+  milestones: string[];
+  attestation: SignedVerificationAttestation | null;
+  failure: VerificationFailure | null;
+  error: string | null;
+};
+
+// What a verifier's `/challenge` endpoint returns. ERROR means the challenge could not be judged.
+export type ChallengeResult = {
+  outcome: 'SUCCESS' | 'REJECTED' | 'ERROR';
+  failure: VerificationFailure | null;
+  // Signed by the verifier's key, like report attestations.
+  attestation?: SignedChallengeResult | null;
+};
+
+export type SignedChallengeResult = {
+  message: ChallengeResultMessage;
+  signature: string;
+};
+
+export type ChallengeVerifierResult = ChallengeResult & {
+  verifierUrl: string;
+  signer: string | null;
+  error: string | null;
+};
+
+// Recorded whenever verifiers that produced a result disagree. `resolution` is the outcome the quorum
+// settled on, or null if no outcome reached the quorum.
+export type VerificationDispute = {
+  id: string;
+  workOrderId: string;
+  submissionId: string;
+  quorum: number;
+  createdAt: number;
+} & (
+  | { kind: 'VERIFICATION'; resolution: 'PASS' | 'FAIL' | null; results: VerifierResult[] }
+  | { kind: 'CHALLENGE'; challengeId: string; resolution: 'SUCCESS' | 'REJECTED' | null; results: ChallengeVerifierResult[] }
+);
+
+// A VerificationAttestation signed by the verifier's key; the signer is recovered from the signature.
+export type SignedVerificationAttestation = {
+  message: VerificationAttestationMessage;
+  signature: string;
+};
+
+export type VerificationResult = {
+  report: VerificationReport;
+  milestonesPassed: string[];
+};
+
+export type VerificationStage = 'checkout' | 'build' | 'test' | 'proof' | 'negative_proof';
+
+// Whose fault a failed verification is: the solver's hook, the verifier's own setup, or a work order
+// that no hook could satisfy as written.
+export type VerificationFailureBlame = 'solver' | 'infrastructure' | 'spec';
+
+export type VerificationFailureCode =
+  | 'HARNESS_MISMATCH'
+  | 'HARNESS_DEPS_MISSING'
+  | 'TOOLCHAIN_UNAVAILABLE'
+  | 'UNKNOWN_TEMPLATE'
+  | 'TEMPLATE_PARAMS_INVALID'
+  | 'ARTIFACT_UNAVAILABLE'
+  | 'ARTIFACT_INVALID'
+  | 'BUILD_FAILED'
+  | 'TESTS_FAILED'
+  | 'PROOF_CONFIG_MISSING'
+  | 'LOCAL_CHAIN_FAILED'
+  | 'RPC_UNAVAILABLE'
+  | 'PROOF_SCRIPT_FAILED'
+  | 'NEGATIVE_PROOF_MISSING'
+  | 'NEGATIVE_PROOF_NOT_ENFORCED'
+  | 'NEGATIVE_PROOF_WRONG_REASON'
+  | 'TIMEOUT'
+  | 'RESOURCE_LIMIT';
+
+export type VerificationFailure = {
+  stage: VerificationStage;
+  code: VerificationFailureCode;
+  // Whether running the same submission again could give a different result.
+  retryable: boolean;
+  blame: VerificationFailureBlame;
+  message: string;
+};
+
+// One chunk of forge output from a running verification job, streamed as it is produced.
+export type VerificationLogEntry = {
+  stage: VerificationStage;
+  stream: 'stdout' | 'stderr';
+  chunk: string;
+  at: number;
+  // Position in the job's output, from 1; a job rerun after a verifier restart counts from 1 again.
+  seq: number;
+};
+
+export type VerificationJobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+// A verification run queued on the verifier. FAILED means the run itself broke (not a FAIL report).
+export type VerificationJob = {
+  id: string;
+  workOrderId: string;
+  submissionId: string;
+  status: VerificationJobStatus;
+  stage: VerificationStage | null;
+  // Milestones passed so far, reported while the job is still running.
+  milestonesPassed: string[];
+  // Signed PENDING attestation of `milestonesPassed`; streamed milestones are only paid against it.
+  attestation?: SignedVerificationAttestation | null;
+  callbackUrl: string | null;
+  result: VerificationResult | null;
+  error: string | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
 };
 
 export type PaymentEvent = {
   id: string;
   workOrderId: string;
-  type: 'QUOTE_REWARD' | 'MILESTONE' | 'CHALLENGE_REWARD' | 'REFUND';
+  type: 'QUOTE_REWARD' | 'MILESTONE' | 'CHALLENGE_REWARD' | 'KILL_FEE' | 'REFUND' | 'CONSOLATION';
   toAddress: string;
   amount: string;
   yellowTransferId?: string | null;
@@ -131,3 +455,15 @@ export type ChallengePayload = {
   signature: string;
   createdAt: number;
 };
+
+export type WorkOrderTransitionActor = 'requester' | 'solver' | 'challenger' | 'verifier' | 'sweeper';
+
+export type WorkOrderTransition = {
+  id: string;
+  workOrderId: string;
+  from: WorkOrderStatus;
+  to: WorkOrderStatus;
+  actor: WorkOrderTransitionActor;
+  reason: string;
+  createdAt: number;
+};
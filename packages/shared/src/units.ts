@@ -0,0 +1,15 @@
+import { YELLOW_ASSET } from './constants.js';
+
+// Decimal amount to integer units. Digits beyond `decimals` are truncated.
+export function toUnits(amount: string, decimals: number = YELLOW_ASSET.decimals): bigint {
+  const [whole, frac = ''] = amount.split('.');
+  const padded = `${whole}${frac.slice(0, decimals).padEnd(decimals, '0')}`.replace(/^0+/, '') || '0';
+  return BigInt(padded);
+}
+
+export function fromUnits(value: bigint, decimals: number = YELLOW_ASSET.decimals): string {
+  const raw = value.toString().padStart(decimals + 1, '0');
+  const whole = raw.slice(0, -decimals) || '0';
+  const frac = raw.slice(-decimals).replace(/0+$/, '');
+  return frac ? `${whole}.${frac}` : whole;
+}
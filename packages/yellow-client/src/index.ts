@@ -27,7 +27,7 @@ import {
 import { createPublicClient, createWalletClient, http, type Address, type Hex } from 'viem';
 import { privateKeyToAccount, generatePrivateKey } from 'viem/accounts';
 import { baseSepolia } from 'viem/chains';
-import type { PaymentEvent } from '@v4shm/shared';
+import { fromUnits, toUnits, type PaymentEvent } from '@v4shm/shared';
 
 export type YellowClientOptions = {
   mode: 'mock' | 'real';
@@ -47,19 +47,6 @@ type RpcResponse = {
   err?: [number, string, any, number?];
 };
 
-function toUnits(amount: string, decimals: number): bigint {
-  const [whole, frac = ''] = amount.split('.');
-  const padded = `${whole}${frac.padEnd(decimals, '0')}`.replace(/^0+/, '') || '0';
-  return BigInt(padded);
-}
-
-function fromUnits(value: bigint, decimals: number): string {
-  const raw = value.toString().padStart(decimals + 1, '0');
-  const whole = raw.slice(0, -decimals) || '0';
-  const frac = raw.slice(-decimals).replace(/0+$/, '');
-  return frac ? `${whole}.${frac}` : whole;
-}
-
 class YellowRpcClient {
   private wsUrl: string;
   private ws: WebSocket | null = null;
@@ -48,3 +48,6 @@ console.log('OK: harness deps present');
 console.log(`- forge: ${forge.output.split('\n')[0]}`);
 console.log(`- v4-core: ${v4CoreRoot}`);
 
+
+const anvil = checkCmd('anvil', ['--version']);
+console.log(`- anvil: ${anvil.ok ? anvil.output.split('\n')[0] : 'not found (needed for VERIFIER_MODE=local)'}`);
@@ -296,12 +296,12 @@ async function main() {
     clampDemoPrice('SOLVER_B_PRICE', '0.04', { maxAllowed: 0.5 });
   }
 
-  if (env.VERIFIER_MODE === 'real') {
+  if (env.VERIFIER_MODE === 'real' || env.VERIFIER_MODE === 'local') {
     const v4CoreRoot = path.join(repoRoot, 'harness', 'v4-hook-harness', 'lib', 'v4-core');
     const forgeStdSrc = path.join(v4CoreRoot, 'lib', 'forge-std', 'src');
     const solmateSrc = path.join(v4CoreRoot, 'lib', 'solmate', 'src');
     if (!fs.existsSync(forgeStdSrc) || !fs.existsSync(solmateSrc)) {
-      console.log('WARN: verifier is in real mode, but harness deps are missing. Run `pnpm harness:install`.');
+      console.log(`WARN: verifier is in ${env.VERIFIER_MODE} mode, but harness deps are missing. Run \`pnpm harness:install\`.`);
     }
   }
 
@@ -329,6 +329,11 @@ async function main() {
   console.log(`- LI.FI: http://localhost:${webPort}/lifi`);
   console.log(`- Bots poll: ${env.BOT_POLL_MS}ms`);
 
+  // The API checks report signatures against this key's address (it reads the same env).
+  if (env.V4SHM_DEMO_AUTOKEYS !== 'false') {
+    ensureDemoPrivateKey('VERIFIER_PRIVATE_KEY', 'verifier');
+  }
+
   const verifier = pnpmCmd(['-C', 'apps/verifier', 'dev']);
   startProcess('verifier', verifier.cmd, verifier.args, { ...env, PORT: String(verifierPort) }, processes);
 